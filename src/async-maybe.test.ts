@@ -0,0 +1,232 @@
+/*
+ *******************************************************************************
+ * Copyright © 2024-present Jonathan Barronville <jonathanmarvens@proton.me>   *
+ *                                                                             *
+ * Licensed under the Apache License, Version 2.0 (the "License"); you may not *
+ * use this file except in compliance with the License.                        *
+ * You may obtain a copy of the License at                                     *
+ *                                                                             *
+ *     http://www.apache.org/licenses/LICENSE-2.0                              *
+ *                                                                             *
+ * Unless required by applicable law or agreed to in writing, software         *
+ * distributed under the License is distributed on an "AS IS" BASIS, WITHOUT   *
+ * WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.            *
+ * See the License for the specific language governing permissions and         *
+ * limitations under the License.                                              *
+ *******************************************************************************
+ */
+
+import { asyncMaybe } from './async-maybe'
+import { asyncNothing } from './async-maybe'
+import { asyncSomething } from './async-maybe'
+import { expect } from 'chai'
+import ExpectationError from './error/expectation'
+import ImproperUnwrapError from './error/improper-unwrap'
+import { isAsyncMaybe } from './async-maybe'
+import { isAsyncResult } from './async-result'
+import { isMaybe } from './maybe'
+import { nothing } from './maybe'
+import { something } from './maybe'
+import { spy } from 'sinon'
+import { suite } from 'mocha'
+import { test } from 'mocha'
+
+test('`isAsyncMaybe()`: Checks if the provided `value` is an `AsyncMaybe`', async () => {
+  const value0 = null
+  expect(isAsyncMaybe(value0)).to.be.false
+  const value1 = something(42)
+  expect(isAsyncMaybe(value1)).to.be.false
+  const value2 = Promise.resolve(something(42))
+  expect(isAsyncMaybe(value2)).to.be.false
+  const value3 = asyncSomething(42)
+  expect(isAsyncMaybe(value3)).to.be.true
+})
+
+test('`asyncMaybe()`: Creates and returns a new `AsyncMaybe` that resolves to the provided `maybe`', async () => {
+  const value0 = something(42)
+  expect(await asyncMaybe(value0)).to.equal(value0)
+  const value1 = nothing()
+  expect(await asyncMaybe(Promise.resolve(value1))).to.equal(value1)
+})
+
+test('`asyncNothing()`: Creates and returns a new `AsyncMaybe` that resolves to a `Nothing` `Maybe`', async () => {
+  const value = await asyncNothing()
+  expect(isMaybe(value)).to.be.true
+  expect(value.isNothing()).to.be.true
+})
+
+test('`asyncSomething()`: Creates and returns a new `AsyncMaybe` that resolves to a `Something` `Maybe` containing the provided `value`', async () => {
+  const value = await asyncSomething(42)
+  expect(isMaybe(value)).to.be.true
+  expect(value.unwrap()).to.equal(42)
+})
+
+suite('`AsyncMaybe`', () => {
+  test('`AsyncMaybe#and()`: If this resolves to a `Nothing` `Maybe`, resolves to that `Maybe`', async () => {
+    const value = asyncNothing()
+    const other = something(42)
+    expect(await value.and(other).isNothing()).to.be.true
+  })
+
+  test('`AsyncMaybe#and()`: If this resolves to a `Something` `Maybe`, resolves to `other`', async () => {
+    const value = asyncSomething('foo')
+    const other = something('bar')
+    expect(await value.and(Promise.resolve(other))).to.equal(other)
+  })
+
+  test('`AsyncMaybe#andThen()`: If this resolves to a `Nothing` `Maybe`, resolves to that `Maybe`', async () => {
+    const value = asyncNothing()
+    const spy0 = spy()
+    expect(await value.andThen(spy0).isNothing()).to.be.true
+    expect(spy0.called).to.be.false
+  })
+
+  test('`AsyncMaybe#andThen()`: If this resolves to a `Something` `Maybe`, resolves to the result of applying `f` to the contained value', async () => {
+    const value0 = asyncSomething(42)
+    const value1 = value0
+      .andThen((value) => {
+        return something(value * 2)
+      })
+      .andThen(async (value) => {
+        return something(value + 1)
+      })
+      .andThen((value) => {
+        return asyncSomething(value * 10)
+      })
+    expect(await value1.unwrap()).to.equal(850)
+  })
+
+  test('`AsyncMaybe#expect()`: If this resolves to a `Nothing` `Maybe`, rejects with an `ExpectationError` with the provided `message`', async () => {
+    const value = asyncNothing()
+    const reason = await value.expect('Test expectation message').catch((reason) => reason)
+    expect(reason).to.be.an.instanceOf(ExpectationError).with.property('message', 'Test expectation message')
+  })
+
+  test('`AsyncMaybe#expect()`: If this resolves to a `Something` `Maybe`, resolves to the contained value', async () => {
+    const value = asyncSomething(42)
+    expect(await value.expect('Test expectation message')).to.equal(42)
+  })
+
+  test('`AsyncMaybe#filter()`: If this resolves to a `Nothing` `Maybe`, resolves to that `Maybe`', async () => {
+    const value = asyncNothing()
+    const spy0 = spy()
+    expect(await value.filter(spy0).isNothing()).to.be.true
+    expect(spy0.called).to.be.false
+  })
+
+  test('`AsyncMaybe#filter()`: If this resolves to a `Something` `Maybe`, resolves to that `Maybe` if the contained value satisfies the provided `predicate`', async () => {
+    const value = asyncSomething(42)
+    expect(await value.filter(async (value) => {
+      return (value === 42)
+    }).unwrap()).to.equal(42)
+    expect(await value.filter(async (value) => {
+      return (value !== 42)
+    }).isNothing()).to.be.true
+  })
+
+  test('`AsyncMaybe#getSuccessOr()`: If this resolves to a `Nothing` `Maybe`, returns an `AsyncResult` that resolves to a `Failure` `Result` containing the provided `error`', async () => {
+    const error = new Error('Test error')
+    const value = asyncNothing().getSuccessOr(error)
+    expect(isAsyncResult(value)).to.be.true
+    expect(await value.unwrapFailure()).to.equal(error)
+  })
+
+  test('`AsyncMaybe#getSuccessOr()`: If this resolves to a `Something` `Maybe`, returns an `AsyncResult` that resolves to a `Success` `Result` containing the contained value', async () => {
+    const error = new Error('Test error')
+    const value = asyncSomething(42).getSuccessOr(error)
+    expect(isAsyncResult(value)).to.be.true
+    expect(await value.unwrap()).to.equal(42)
+  })
+
+  test('`AsyncMaybe#inspect()`: If this resolves to a `Nothing` `Maybe`, resolves to that `Maybe`', async () => {
+    const value = nothing()
+    const spy0 = spy()
+    expect(await asyncMaybe(value).inspect(spy0)).to.equal(value)
+    expect(spy0.called).to.be.false
+  })
+
+  test('`AsyncMaybe#inspect()`: If this resolves to a `Something` `Maybe`, applies `f` to the contained value and resolves to that `Maybe`', async () => {
+    const value = something(42)
+    const spy0 = spy()
+    let isAwaited = false
+    expect(await asyncMaybe(value).inspect(async (value) => {
+      spy0(value)
+      await new Promise((resolve) => setTimeout(resolve, 1))
+      isAwaited = true
+    })).to.equal(value)
+    expect(spy0.calledOnceWithExactly(42)).to.be.true
+    expect(isAwaited).to.be.true
+  })
+
+  test('`AsyncMaybe#isNothing()`: Resolves to whether this resolves to a `Nothing` `Maybe`', async () => {
+    expect(await asyncNothing().isNothing()).to.be.true
+    expect(await asyncSomething(42).isNothing()).to.be.false
+  })
+
+  test('`AsyncMaybe#isNothingOr()`: If this resolves to a `Nothing` `Maybe`, resolves to `true`', async () => {
+    const spy0 = spy()
+    expect(await asyncNothing().isNothingOr(spy0)).to.be.true
+    expect(spy0.called).to.be.false
+  })
+
+  test('`AsyncMaybe#isNothingOr()`: If this resolves to a `Something` `Maybe`, resolves to the result of applying `predicate` to the contained value', async () => {
+    expect(await asyncSomething(42).isNothingOr(async (value) => {
+      return (value !== 42)
+    })).to.be.false
+  })
+
+  test('`AsyncMaybe#isSomething()`: Resolves to whether this resolves to a `Something` `Maybe`', async () => {
+    expect(await asyncNothing().isSomething()).to.be.false
+    expect(await asyncSomething(42).isSomething()).to.be.true
+  })
+
+  test('`AsyncMaybe#isSomethingAnd()`: If this resolves to a `Nothing` `Maybe`, resolves to `false`', async () => {
+    const spy0 = spy()
+    expect(await asyncNothing().isSomethingAnd(spy0)).to.be.false
+    expect(spy0.called).to.be.false
+  })
+
+  test('`AsyncMaybe#isSomethingAnd()`: If this resolves to a `Something` `Maybe`, resolves to the result of applying `predicate` to the contained value', async () => {
+    expect(await asyncSomething(42).isSomethingAnd(async (value) => {
+      return (value === 42)
+    })).to.be.true
+  })
+
+  test('`AsyncMaybe#map()`: If this resolves to a `Nothing` `Maybe`, resolves to that `Maybe`', async () => {
+    const spy0 = spy()
+    expect(await asyncNothing().map(spy0).isNothing()).to.be.true
+    expect(spy0.called).to.be.false
+  })
+
+  test('`AsyncMaybe#map()`: If this resolves to a `Something` `Maybe`, resolves to a `Something` `Maybe` containing the result of applying `f` to the contained value', async () => {
+    const value0 = asyncSomething(42)
+    const value1 = value0
+      .map((value) => {
+        return (value * 2)
+      })
+      .map(async (value) => {
+        return `${value}`
+      })
+    expect(await value1.unwrap()).to.equal('84')
+  })
+
+  test('`AsyncMaybe#or()`: If this resolves to a `Nothing` `Maybe`, resolves to `other`', async () => {
+    const other = something('foo')
+    expect(await asyncNothing<string>().or(asyncMaybe(other))).to.equal(other)
+  })
+
+  test('`AsyncMaybe#or()`: If this resolves to a `Something` `Maybe`, resolves to that `Maybe`', async () => {
+    const value = something('foo')
+    const other = something('bar')
+    expect(await asyncMaybe(value).or(other)).to.equal(value)
+  })
+
+  test('`AsyncMaybe#unwrap()`: If this resolves to a `Nothing` `Maybe`, rejects with an `ImproperUnwrapError`', async () => {
+    const reason = await asyncNothing().unwrap().catch((reason) => reason)
+    expect(reason).to.be.an.instanceOf(ImproperUnwrapError)
+  })
+
+  test('`AsyncMaybe#unwrap()`: If this resolves to a `Something` `Maybe`, resolves to the contained value', async () => {
+    expect(await asyncSomething(42).unwrap()).to.equal(42)
+  })
+})
@@ -0,0 +1,290 @@
+/*
+ *******************************************************************************
+ * Copyright © 2024-present Jonathan Barronville <jonathanmarvens@proton.me>   *
+ *                                                                             *
+ * Licensed under the Apache License, Version 2.0 (the "License"); you may not *
+ * use this file except in compliance with the License.                        *
+ * You may obtain a copy of the License at                                     *
+ *                                                                             *
+ *     http://www.apache.org/licenses/LICENSE-2.0                              *
+ *                                                                             *
+ * Unless required by applicable law or agreed to in writing, software         *
+ * distributed under the License is distributed on an "AS IS" BASIS, WITHOUT   *
+ * WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.            *
+ * See the License for the specific language governing permissions and         *
+ * limitations under the License.                                              *
+ *******************************************************************************
+ */
+
+import assert from './utilities/assert'
+import type AsyncResult from './async-result'
+import { asyncResult } from './async-result'
+import { isMaybe } from './maybe'
+import isPromiseLike from './utilities/is-promise-like'
+import type Maybe from './maybe'
+import { nothing } from './maybe'
+import { something } from './maybe'
+
+/**
+ * A robust abstraction for handling optional values that are produced asynchronously.
+ *
+ * An {@link AsyncMaybe} wraps a promise of a {@link Maybe} and can be awaited to obtain it.
+ */
+class AsyncMaybe<TValue> implements PromiseLike<Maybe<TValue>> {
+  public static make<TValue>(promise: PromiseLike<Maybe<TValue>>) {
+    return new this(promise)
+  }
+
+  #promise: Promise<Maybe<TValue>>
+
+  private constructor(promise: PromiseLike<Maybe<TValue>>) {
+    this.#promise = Promise.resolve(promise)
+      .then((maybe) => {
+        assert(isMaybe(maybe))
+        return maybe
+      })
+  }
+
+  /**
+   * If this resolves to a `Something` {@link Maybe}, resolves to {@link other}.
+   * If this resolves to a `Nothing` {@link Maybe}, resolves to that {@link Maybe}.
+   *
+   * @param other The {@link Maybe} to resolve to if this resolves to a `Something` {@link Maybe}.
+   */
+  public and<TOtherValue>(other: Maybe<TOtherValue> | PromiseLike<Maybe<TOtherValue>>) {
+    assert(isMaybe(other) || isPromiseLike(other))
+    return this.andThen(() => other)
+  }
+
+  /**
+   * If this resolves to a `Something` {@link Maybe}, resolves to the result of applying {@link f} to the contained value.
+   * If this resolves to a `Nothing` {@link Maybe}, resolves to that {@link Maybe}.
+   *
+   * @param f The function to apply to the contained value.
+   */
+  public andThen<TOtherValue>(f: (value: TValue) => Maybe<TOtherValue> | PromiseLike<Maybe<TOtherValue>>) {
+    assert(typeof f === 'function')
+    return AsyncMaybe.make(this.#promise.then(async (maybe) => {
+      if (maybe.isNothing()) {
+        return nothing<TOtherValue>()
+      }
+      const other = await f(maybe.unwrap())
+      assert(isMaybe(other))
+      return other
+    }))
+  }
+
+  /**
+   * If this resolves to a `Something` {@link Maybe}, resolves to the contained value.
+   * If this resolves to a `Nothing` {@link Maybe}, rejects with an {@link ExpectationError} with the provided {@link message}.
+   *
+   * @param message The message to include in the {@link ExpectationError}.
+   */
+  public async expect(message: string) {
+    assert(typeof message === 'string')
+    const maybe = await this.#promise
+    return maybe.expect(message)
+  }
+
+  /**
+   * If this resolves to a `Something` {@link Maybe}, resolves to that {@link Maybe} if the contained value satisfies the provided {@link predicate}.
+   * If this resolves to a `Nothing` {@link Maybe}, resolves to that {@link Maybe}.
+   *
+   * @param predicate The predicate to apply to the contained value.
+   */
+  public filter(predicate: (value: TValue) => boolean | PromiseLike<boolean>) {
+    assert(typeof predicate === 'function')
+    return AsyncMaybe.make(this.#promise.then(async (maybe) => {
+      if (maybe.isNothing()) {
+        return maybe
+      }
+      const isSatified = await predicate(maybe.unwrap())
+      assert(typeof isSatified === 'boolean')
+      return isSatified ?
+        maybe :
+        nothing<TValue>()
+    }))
+  }
+
+  /**
+   * If this resolves to a `Something` {@link Maybe}, returns an {@link AsyncResult} that resolves to a `Success` {@link Result} containing the contained value.
+   * If this resolves to a `Nothing` {@link Maybe}, returns an {@link AsyncResult} that resolves to a `Failure` {@link Result} containing the provided {@link error}.
+   *
+   * @param error The error to include in the `Failure` {@link Result}.
+   */
+  public getSuccessOr<TError extends NonNullable<unknown>>(error: TError): AsyncResult<TValue, TError> {
+    return asyncResult(this.#promise.then((maybe) => {
+      return maybe.getSuccessOr(error)
+    }))
+  }
+
+  /**
+   * If this resolves to a `Something` {@link Maybe}, applies {@link f} to the contained value and resolves to that {@link Maybe}.
+   * If this resolves to a `Nothing` {@link Maybe}, resolves to that {@link Maybe}.
+   *
+   * If {@link f} returns a promise, it is awaited before resolving.
+   *
+   * @param f The function to apply to the contained value.
+   */
+  public inspect(f: (value: TValue) => void | PromiseLike<void>) {
+    assert(typeof f === 'function')
+    return AsyncMaybe.make(this.#promise.then(async (maybe) => {
+      if (maybe.isSomething()) {
+        await f(maybe.unwrap())
+      }
+      return maybe
+    }))
+  }
+
+  /**
+   * If this resolves to a `Something` {@link Maybe}, resolves to `false`.
+   * If this resolves to a `Nothing` {@link Maybe}, resolves to `true`.
+   */
+  public async isNothing() {
+    const maybe = await this.#promise
+    return maybe.isNothing()
+  }
+
+  /**
+   * If this resolves to a `Something` {@link Maybe}, resolves to the result of applying {@link predicate} to the contained value.
+   * If this resolves to a `Nothing` {@link Maybe}, resolves to `true`.
+   *
+   * @param predicate The predicate to apply to the contained value.
+   */
+  public async isNothingOr(predicate: (value: TValue) => boolean | PromiseLike<boolean>) {
+    assert(typeof predicate === 'function')
+    const maybe = await this.#promise
+    if (maybe.isNothing()) {
+      return true
+    }
+    const isSatified = await predicate(maybe.unwrap())
+    assert(typeof isSatified === 'boolean')
+    return isSatified
+  }
+
+  /**
+   * If this resolves to a `Something` {@link Maybe}, resolves to `true`.
+   * If this resolves to a `Nothing` {@link Maybe}, resolves to `false`.
+   */
+  public async isSomething() {
+    const maybe = await this.#promise
+    return maybe.isSomething()
+  }
+
+  /**
+   * If this resolves to a `Something` {@link Maybe}, resolves to the result of applying {@link predicate} to the contained value.
+   * If this resolves to a `Nothing` {@link Maybe}, resolves to `false`.
+   *
+   * @param predicate The predicate to apply to the contained value.
+   */
+  public async isSomethingAnd(predicate: (value: TValue) => boolean | PromiseLike<boolean>) {
+    assert(typeof predicate === 'function')
+    const maybe = await this.#promise
+    if (maybe.isNothing()) {
+      return false
+    }
+    const isSatified = await predicate(maybe.unwrap())
+    assert(typeof isSatified === 'boolean')
+    return isSatified
+  }
+
+  /**
+   * If this resolves to a `Something` {@link Maybe}, resolves to a `Something` {@link Maybe} containing the result of applying {@link f} to the contained value.
+   * If this resolves to a `Nothing` {@link Maybe}, resolves to that {@link Maybe}.
+   *
+   * @param f The function to apply to the contained value.
+   */
+  public map<TNewValue>(f: (value: TValue) => TNewValue | PromiseLike<TNewValue>) {
+    assert(typeof f === 'function')
+    return this.andThen(async (value) => {
+      return something<TNewValue>(await f(value))
+    })
+  }
+
+  /**
+   * If this resolves to a `Something` {@link Maybe}, resolves to that {@link Maybe}.
+   * If this resolves to a `Nothing` {@link Maybe}, resolves to {@link other}.
+   *
+   * @param other The {@link Maybe} to resolve to if this resolves to a `Nothing` {@link Maybe}.
+   */
+  public or(other: Maybe<TValue> | PromiseLike<Maybe<TValue>>) {
+    assert(isMaybe(other) || isPromiseLike(other))
+    return AsyncMaybe.make(this.#promise.then(async (maybe) => {
+      if (maybe.isSomething()) {
+        return maybe
+      }
+      const otherMaybe = await other
+      assert(isMaybe(otherMaybe))
+      return otherMaybe
+    }))
+  }
+
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the underlying promise of a {@link Maybe}.
+   *
+   * @param onFulfilled The callback to execute when the underlying promise resolves.
+   * @param onRejected The callback to execute when the underlying promise rejects.
+   */
+  public then<TResult1 = Maybe<TValue>, TResult2 = never>(
+    onFulfilled?: ((value: Maybe<TValue>) => TResult1 | PromiseLike<TResult1>) | null,
+    onRejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null,
+  ) {
+    return this.#promise.then(onFulfilled, onRejected)
+  }
+
+  public toString() {
+    return 'AsyncMaybe{}'
+  }
+
+  /**
+   * If this resolves to a `Something` {@link Maybe}, resolves to the contained value.
+   * If this resolves to a `Nothing` {@link Maybe}, rejects with an {@link ImproperUnwrapError}.
+   */
+  public async unwrap() {
+    const maybe = await this.#promise
+    return maybe.unwrap()
+  }
+}
+
+/**
+ * Checks if the provided {@link value} is an {@link AsyncMaybe}.
+ *
+ * @param value The value to check.
+ */
+function isAsyncMaybe(value: unknown): value is AsyncMaybe<unknown> {
+  return (value instanceof AsyncMaybe)
+}
+
+/**
+ * Creates and returns a new {@link AsyncMaybe} that resolves to the provided {@link maybe}.
+ *
+ * @param maybe The {@link Maybe}, or promise of a {@link Maybe}, to lift into the new {@link AsyncMaybe}.
+ */
+function asyncMaybe<TValue>(maybe: Maybe<TValue> | PromiseLike<Maybe<TValue>>): AsyncMaybe<TValue> {
+  assert(isMaybe(maybe) || isPromiseLike(maybe))
+  return AsyncMaybe.make(Promise.resolve(maybe))
+}
+
+/**
+ * Creates and returns a new {@link AsyncMaybe} that resolves to a `Nothing` {@link Maybe}.
+ */
+function asyncNothing<TValue = any>(): AsyncMaybe<TValue> {
+  return asyncMaybe(nothing<TValue>())
+}
+
+/**
+ * Creates and returns a new {@link AsyncMaybe} that resolves to a `Something` {@link Maybe} containing the provided {@link value}.
+ *
+ * @param value The value to contain in the `Something` {@link Maybe}.
+ */
+function asyncSomething<TValue = any>(value: TValue): AsyncMaybe<TValue> {
+  return asyncMaybe(something<TValue>(value))
+}
+
+export {
+  type AsyncMaybe as default,
+  asyncMaybe,
+  asyncNothing,
+  asyncSomething,
+  isAsyncMaybe,
+}
@@ -0,0 +1,465 @@
+/*
+ *******************************************************************************
+ * Copyright © 2024-present Jonathan Barronville <jonathanmarvens@proton.me>   *
+ *                                                                             *
+ * Licensed under the Apache License, Version 2.0 (the "License"); you may not *
+ * use this file except in compliance with the License.                        *
+ * You may obtain a copy of the License at                                     *
+ *                                                                             *
+ *     http://www.apache.org/licenses/LICENSE-2.0                              *
+ *                                                                             *
+ * Unless required by applicable law or agreed to in writing, software         *
+ * distributed under the License is distributed on an "AS IS" BASIS, WITHOUT   *
+ * WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.            *
+ * See the License for the specific language governing permissions and         *
+ * limitations under the License.                                              *
+ *******************************************************************************
+ */
+
+import { asyncFailure } from './async-result'
+import { asyncResult } from './async-result'
+import type AsyncResult from './async-result'
+import { asyncSuccess } from './async-result'
+import ContextError from './error/context'
+import { expect } from 'chai'
+import ExpectationError from './error/expectation'
+import { failure } from './result'
+import { genAsyncResult } from './async-result'
+import ImproperUnwrapError from './error/improper-unwrap'
+import { isAsyncResult } from './async-result'
+import { isResult } from './result'
+import type Result from './result'
+import { spy } from 'sinon'
+import { success } from './result'
+import { suite } from 'mocha'
+import TaggedError from './error/tagged'
+import { test } from 'mocha'
+import ThrownValueError from './error/thrown-value'
+import { tryCatchAsync } from './async-result'
+
+class NotFoundError extends TaggedError('NotFound') {}
+
+class TimeoutError extends TaggedError('Timeout') {
+  public readonly ms: number
+
+  public constructor(ms: number) {
+    super(`Timed out after ${ms}ms`)
+    this.ms = ms
+  }
+}
+
+test('`isAsyncResult()`: Checks if the provided `value` is an `AsyncResult`', async () => {
+  const value0 = null
+  expect(isAsyncResult(value0)).to.be.false
+  const value1 = success(42)
+  expect(isAsyncResult(value1)).to.be.false
+  const value2 = Promise.resolve(success(42))
+  expect(isAsyncResult(value2)).to.be.false
+  const value3 = asyncSuccess(42)
+  expect(isAsyncResult(value3)).to.be.true
+})
+
+test('`asyncFailure()`: Creates and returns a new `AsyncResult` that resolves to a `Failure` `Result` containing the provided `error`', async () => {
+  const error = new Error('Test error')
+  const value = await asyncFailure(error)
+  expect(isResult(value)).to.be.true
+  expect(value.unwrapFailure()).to.equal(error)
+})
+
+test('`asyncFailure()`: Rejects a missing `error`', async () => {
+  expect(function () {
+    asyncFailure(null as unknown as Error)
+  }).to.throw()
+})
+
+test('`asyncResult()`: Creates and returns a new `AsyncResult` that resolves to the provided `result`', async () => {
+  const value0 = success(42)
+  expect(await asyncResult(value0)).to.equal(value0)
+  const value1 = failure(new Error('Test error'))
+  expect(await asyncResult(Promise.resolve(value1))).to.equal(value1)
+})
+
+test('`asyncSuccess()`: Creates and returns a new `AsyncResult` that resolves to a `Success` `Result` containing the provided `value`', async () => {
+  const value = await asyncSuccess(42)
+  expect(isResult(value)).to.be.true
+  expect(value.unwrap()).to.equal(42)
+})
+
+test('`genAsyncResult()`: If every bound `Result` is a `Success` `Result`, resolves to a `Success` `Result` containing the return value of the generator', async () => {
+  const value0 = success<number, 'Test error 0'>(21)
+  const value1 = Promise.resolve(success<string, 'Test error 1'>('foo'))
+  const value2 = asyncSuccess<string, 'Test error 2'>('bar')
+  const value3: Result<string, 'Test error 0' | 'Test error 1' | 'Test error 2'> = await genAsyncResult(async function* (bind) {
+    const number = yield* bind(value0)
+    const string0 = yield* bind(value1)
+    const string1 = yield* bind(value2)
+    return `${string0}${string1}${number * 2}`
+  })
+  expect(value3.isSuccess()).to.be.true
+  expect(value3.unwrap()).to.equal('foobar42')
+})
+
+test('`genAsyncResult()`: If a bound `Result` is a `Failure` `Result`, resolves to a `Failure` `Result` containing its error and stops the generator', async () => {
+  const error = new Error('Test error')
+  const spy0 = spy()
+  const spy1 = spy()
+  const value = genAsyncResult(async function* (bind) {
+    try {
+      const number = yield* bind(asyncSuccess<number, string>(42))
+      yield* bind(Promise.resolve(failure<number, Error>(error)))
+      spy0()
+      return number
+    } finally {
+      spy1()
+    }
+  })
+  expect(isAsyncResult(value)).to.be.true
+  expect(await value.unwrapFailure()).to.equal(error)
+  expect(spy0.called).to.be.false
+  expect(spy1.calledOnce).to.be.true
+})
+
+test('`tryCatchAsync()`: If `f` resolves, resolves to a `Success` `Result` containing the resolved value', async () => {
+  const value = tryCatchAsync(async () => 42)
+  expect(isAsyncResult(value)).to.be.true
+  expect(await value.unwrap()).to.equal(42)
+})
+
+test('`tryCatchAsync()`: If `f` throws or rejects, resolves to a `Failure` `Result` containing the normalized error', async () => {
+  const error = new Error('Test error')
+  const value0 = tryCatchAsync(async () => {
+    throw error
+  })
+  expect(await value0.unwrapFailure()).to.equal(error)
+  const value1 = tryCatchAsync(() => {
+    throw undefined
+  })
+  const error1 = await value1.unwrapFailure()
+  expect(error1).to.be.an.instanceOf(ThrownValueError)
+  expect(error1).to.have.property('value', undefined)
+})
+
+test('`tryCatchAsync()`: If `f` rejects and `mapError` is provided, resolves to a `Failure` `Result` containing the result of applying `mapError` to the rejection reason', async () => {
+  const value = tryCatchAsync(() => Promise.reject('foo'), async (error) => `Rejected: ${error}`)
+  expect(await value.unwrapFailure()).to.equal('Rejected: foo')
+})
+
+suite('`AsyncResult`', () => {
+  test('`AsyncResult#and()`: If this resolves to a `Failure` `Result`, resolves to that `Result`', async () => {
+    const error = new Error('Test error')
+    const value = asyncFailure(error)
+    const other = success(42)
+    expect(await value.and(other).unwrapFailure()).to.equal(error)
+  })
+
+  test('`AsyncResult#and()`: If this resolves to a `Success` `Result`, resolves to `other`', async () => {
+    const value = asyncSuccess('foo')
+    const other = success('bar')
+    expect(await value.and(Promise.resolve(other))).to.equal(other)
+  })
+
+  test('`AsyncResult#andThen()`: If this resolves to a `Failure` `Result`, resolves to that `Result`', async () => {
+    const error = new Error('Test error')
+    const value = asyncFailure(error)
+    const spy0 = spy()
+    expect(await value.andThen(spy0).unwrapFailure()).to.equal(error)
+    expect(spy0.called).to.be.false
+  })
+
+  test('`AsyncResult#andThen()`: If this resolves to a `Success` `Result`, resolves to the result of applying `f` to the contained value', async () => {
+    const value0 = asyncSuccess(42)
+    const value1 = value0
+      .andThen((value) => {
+        return success(value * 2)
+      })
+      .andThen(async (value) => {
+        return success(value + 1)
+      })
+      .andThen((value) => {
+        return asyncSuccess(value * 10)
+      })
+    expect(await value1.unwrap()).to.equal(850)
+  })
+
+  test('`AsyncResult#andThen()`: Widens the error type to include the error type of the `Result` returned by `f`', async () => {
+    const value0 = asyncResult<number, string>(success(42))
+    const value1 = value0.andThen(async (value) => {
+      return failure<number, Error>(new Error(`Test error ${value}`))
+    })
+    const error: string | Error = await value1.unwrapFailure()
+    expect(error).to.be.an.instanceOf(Error)
+  })
+
+  test('`AsyncResult#catchTag()`: If this resolves to a `Failure` `Result` containing an error tagged with `tag`, resolves to the result of applying `f` to the contained error', async () => {
+    const value = asyncResult<number, NotFoundError | TimeoutError>(failure(new NotFoundError('Test error')))
+    const recovered = value.catchTag('NotFound', async (error) => {
+      return success<string, never>(`${error._tag}: ${error.message}`)
+    })
+    expect(await recovered.unwrap()).to.equal('NotFound: Test error')
+  })
+
+  test('`AsyncResult#catchTag()`: If this resolves to a `Failure` `Result` containing an error tagged otherwise, resolves to that `Result`', async () => {
+    const error = new TimeoutError(1000)
+    const value = asyncResult<number, NotFoundError | TimeoutError>(failure(error))
+    const spy0 = spy(() => success<number, never>(0))
+    expect(await value.catchTag('NotFound', spy0).unwrapFailure()).to.equal(error)
+    expect(spy0.called).to.be.false
+  })
+
+  test('`AsyncResult#catchTag()`: Treats the `any` error type of a `Result` created by `success()` without type arguments as `never`', async () => {
+    const value = asyncResult<number, NotFoundError | TimeoutError>(failure(new NotFoundError('Test error')))
+    const recovered = value.catchTag('NotFound', async () => success(0))
+    const isExact: (<T>() => T extends typeof recovered ? 1 : 2) extends (<T>() => T extends AsyncResult<number, TimeoutError> ? 1 : 2) ?
+      true :
+      false = true
+    expect(isExact).to.be.true
+    expect(await recovered.unwrap()).to.equal(0)
+  })
+
+  test('`AsyncResult#catchTags()`: If this resolves to a `Failure` `Result` containing an error tagged with a key of `cases`, resolves to the result of applying the matching function to the contained error', async () => {
+    const value = asyncResult<number, NotFoundError | TimeoutError>(failure(new TimeoutError(1000)))
+    const recovered = value.catchTags({
+      NotFound: () => success<number, never>(0),
+      Timeout: async (error) => failure<number, string>(`Timed out after ${error.ms}ms`),
+    })
+    expect(await recovered.unwrapFailure()).to.equal('Timed out after 1000ms')
+  })
+
+  test('`AsyncResult#catchTags()`: If this resolves to a `Success` `Result`, resolves to that `Result`', async () => {
+    const value = asyncResult<number, NotFoundError>(success(42))
+    expect(await value.catchTags({ NotFound: () => success<number, never>(0) }).unwrap()).to.equal(42)
+  })
+
+  test('`AsyncResult#catchTags()`: Treats the `any` error type of a `Result` created by `success()` without type arguments as `never`', async () => {
+    const value = asyncResult<number, NotFoundError | TimeoutError>(failure(new NotFoundError('Test error')))
+    const recovered = value.catchTags({ NotFound: async () => success(0) })
+    const isExact: (<T>() => T extends typeof recovered ? 1 : 2) extends (<T>() => T extends AsyncResult<number, TimeoutError> ? 1 : 2) ?
+      true :
+      false = true
+    expect(isExact).to.be.true
+    expect(await recovered.unwrap()).to.equal(0)
+  })
+
+  test('`AsyncResult#context()`: If this resolves to a `Failure` `Result`, resolves to a `Failure` `Result` containing a `ContextError` caused by the contained error', async () => {
+    const error = new Error('Test error')
+    const value = asyncFailure(error).context('Test context')
+    const contextError = await value.unwrapFailure()
+    expect(contextError).to.be.an.instanceOf(ContextError)
+    expect(contextError.message).to.equal('Test context')
+    expect(contextError.cause).to.equal(error)
+  })
+
+  test('`AsyncResult#context()`: If this resolves to a `Success` `Result`, resolves to that `Result`', async () => {
+    const value = asyncSuccess(42).context('Test context')
+    expect(await value.unwrap()).to.equal(42)
+  })
+
+  test('`AsyncResult#expect()`: If this resolves to a `Failure` `Result`, rejects with an `ExpectationError` with the provided `message`', async () => {
+    const error = new Error('Test error')
+    const value = asyncFailure(error)
+    const reason = await value.expect('Test expectation message').catch((reason) => reason)
+    expect(reason).to.be.an.instanceOf(ExpectationError).with.property('message', 'Test expectation message')
+  })
+
+  test('`AsyncResult#expect()`: If this resolves to a `Success` `Result`, resolves to the contained value', async () => {
+    const value = asyncSuccess(42)
+    expect(await value.expect('Test expectation message')).to.equal(42)
+  })
+
+  test('`AsyncResult#expectFailure()`: If this resolves to a `Failure` `Result`, resolves to the contained error', async () => {
+    const error = new Error('Test error')
+    const value = asyncFailure(error)
+    expect(await value.expectFailure('Test expectation message')).to.equal(error)
+  })
+
+  test('`AsyncResult#expectFailure()`: If this resolves to a `Success` `Result`, rejects with an `ExpectationError` with the provided `message`', async () => {
+    const value = asyncSuccess(42)
+    const reason = await value.expectFailure('Test expectation message').catch((reason) => reason)
+    expect(reason).to.be.an.instanceOf(ExpectationError).with.property('message', 'Test expectation message')
+  })
+
+  test('`AsyncResult#getFailure()`: Returns an `AsyncMaybe` that resolves to the `Maybe` that `Result#getFailure()` would return', async () => {
+    const error = new Error('Test error')
+    const maybe0 = await asyncFailure(error).getFailure()
+    expect(maybe0.unwrap()).to.equal(error)
+    const maybe1 = await asyncSuccess(42).getFailure()
+    expect(maybe1.isNothing()).to.be.true
+  })
+
+  test('`AsyncResult#getSuccess()`: Returns an `AsyncMaybe` that resolves to the `Maybe` that `Result#getSuccess()` would return', async () => {
+    const maybe0 = await asyncFailure(new Error('Test error')).getSuccess()
+    expect(maybe0.isNothing()).to.be.true
+    const maybe1 = await asyncSuccess(42).getSuccess()
+    expect(maybe1.unwrap()).to.equal(42)
+  })
+
+  test('`AsyncResult#inspect()`: If this resolves to a `Failure` `Result`, resolves to that `Result`', async () => {
+    const error = new Error('Test error')
+    const value = failure(error)
+    const spy0 = spy()
+    expect(await asyncResult(value).inspect(spy0)).to.equal(value)
+    expect(spy0.called).to.be.false
+  })
+
+  test('`AsyncResult#inspect()`: If this resolves to a `Success` `Result`, applies `f` to the contained value and resolves to that `Result`', async () => {
+    const value = success(42)
+    const spy0 = spy()
+    let isAwaited = false
+    expect(await asyncResult(value).inspect(async (value) => {
+      spy0(value)
+      await new Promise((resolve) => setTimeout(resolve, 1))
+      isAwaited = true
+    })).to.equal(value)
+    expect(spy0.calledOnceWithExactly(42)).to.be.true
+    expect(isAwaited).to.be.true
+  })
+
+  test('`AsyncResult#inspectFailure()`: If this resolves to a `Failure` `Result`, applies `f` to the contained error and resolves to that `Result`', async () => {
+    const error = new Error('Test error')
+    const value = failure(error)
+    const spy0 = spy()
+    expect(await asyncResult(value).inspectFailure(spy0)).to.equal(value)
+    expect(spy0.calledOnceWithExactly(error)).to.be.true
+  })
+
+  test('`AsyncResult#inspectFailure()`: If this resolves to a `Success` `Result`, resolves to that `Result`', async () => {
+    const value = success(42)
+    const spy0 = spy()
+    expect(await asyncResult(value).inspectFailure(spy0)).to.equal(value)
+    expect(spy0.called).to.be.false
+  })
+
+  test('`AsyncResult#isFailure()`: Resolves to whether this resolves to a `Failure` `Result`', async () => {
+    expect(await asyncFailure(new Error('Test error')).isFailure()).to.be.true
+    expect(await asyncSuccess(42).isFailure()).to.be.false
+  })
+
+  test('`AsyncResult#isFailureAnd()`: If this resolves to a `Failure` `Result`, resolves to the result of applying `predicate` to the contained error', async () => {
+    const value = asyncFailure(new Error('Test error'))
+    expect(await value.isFailureAnd(async (error) => {
+      return (error.message === 'Test error')
+    })).to.be.true
+  })
+
+  test('`AsyncResult#isFailureAnd()`: If this resolves to a `Success` `Result`, resolves to `false`', async () => {
+    const value = asyncSuccess<number, Error>(42)
+    const spy0 = spy()
+    expect(await value.isFailureAnd(spy0)).to.be.false
+    expect(spy0.called).to.be.false
+  })
+
+  test('`AsyncResult#isSuccess()`: Resolves to whether this resolves to a `Success` `Result`', async () => {
+    expect(await asyncFailure(new Error('Test error')).isSuccess()).to.be.false
+    expect(await asyncSuccess(42).isSuccess()).to.be.true
+  })
+
+  test('`AsyncResult#isSuccessAnd()`: If this resolves to a `Failure` `Result`, resolves to `false`', async () => {
+    const value = asyncFailure(new Error('Test error'))
+    const spy0 = spy()
+    expect(await value.isSuccessAnd(spy0)).to.be.false
+    expect(spy0.called).to.be.false
+  })
+
+  test('`AsyncResult#isSuccessAnd()`: If this resolves to a `Success` `Result`, resolves to the result of applying `predicate` to the contained value', async () => {
+    const value = asyncSuccess(42)
+    expect(await value.isSuccessAnd(async (value) => {
+      return (value === 42)
+    })).to.be.true
+  })
+
+  test('`AsyncResult#map()`: If this resolves to a `Failure` `Result`, resolves to a `Failure` `Result` containing the same error', async () => {
+    const error = new Error('Test error')
+    const value = asyncFailure(error)
+    const spy0 = spy()
+    expect(await value.map(spy0).unwrapFailure()).to.equal(error)
+    expect(spy0.called).to.be.false
+  })
+
+  test('`AsyncResult#map()`: If this resolves to a `Success` `Result`, resolves to a `Success` `Result` containing the result of applying `f` to the contained value', async () => {
+    const value0 = asyncSuccess(42)
+    const value1 = value0
+      .map((value) => {
+        return (value * 2)
+      })
+      .map(async (value) => {
+        return `${value}`
+      })
+    expect(await value1.unwrap()).to.equal('84')
+  })
+
+  test('`AsyncResult#mapFailure()`: If this resolves to a `Failure` `Result`, resolves to a `Failure` `Result` containing the result of applying `f` to the contained error', async () => {
+    const value0 = asyncFailure(new Error('Test error'))
+    const value1 = value0.mapFailure(async (error) => {
+      return new Error(`${error.message} (mapped)`)
+    })
+    const error = await value1.unwrapFailure()
+    expect(error).to.be.an.instanceOf(Error)
+    expect(error.message).to.equal('Test error (mapped)')
+  })
+
+  test('`AsyncResult#mapFailure()`: Rejects if `f` returns a missing error', async () => {
+    const value = asyncFailure(new Error('Test error'))
+    const reason = await value.mapFailure(() => null as unknown as Error).then(
+      () => null,
+      (reason) => reason,
+    )
+    expect(reason).to.be.an.instanceOf(Error)
+  })
+
+  test('`AsyncResult#mapFailure()`: If this resolves to a `Success` `Result`, resolves to a `Success` `Result` containing the same value', async () => {
+    const value = asyncSuccess(42)
+    const spy0 = spy()
+    expect(await value.mapFailure(spy0).unwrap()).to.equal(42)
+    expect(spy0.called).to.be.false
+  })
+
+  test('`AsyncResult#or()`: If this resolves to a `Failure` `Result`, resolves to `other`', async () => {
+    const value = asyncFailure(new Error('Test error'))
+    const other = success('foo')
+    expect(await value.or(asyncResult(other))).to.equal(other)
+  })
+
+  test('`AsyncResult#or()`: If this resolves to a `Success` `Result`, resolves to a `Success` `Result` containing the same value', async () => {
+    const value = asyncSuccess('foo')
+    const other = success('bar')
+    expect(await value.or(other).unwrap()).to.equal('foo')
+  })
+
+  test('`AsyncResult#unwrap()`: If this resolves to a `Failure` `Result`, rejects with an `ImproperUnwrapError`', async () => {
+    const value = asyncFailure(new Error('Test error'))
+    const reason = await value.unwrap().catch((reason) => reason)
+    expect(reason).to.be.an.instanceOf(ImproperUnwrapError)
+  })
+
+  test('`AsyncResult#unwrap()`: If this resolves to a `Success` `Result`, resolves to the contained value', async () => {
+    const value = asyncSuccess(42)
+    expect(await value.unwrap()).to.equal(42)
+  })
+
+  test('`AsyncResult#unwrapFailure()`: If this resolves to a `Failure` `Result`, resolves to the contained error', async () => {
+    const error = new Error('Test error')
+    const value = asyncFailure(error)
+    expect(await value.unwrapFailure()).to.equal(error)
+  })
+
+  test('`AsyncResult#unwrapFailure()`: If this resolves to a `Success` `Result`, rejects with an `ImproperUnwrapError`', async () => {
+    const value = asyncSuccess(42)
+    const reason = await value.unwrapFailure().catch((reason) => reason)
+    expect(reason).to.be.an.instanceOf(ImproperUnwrapError)
+  })
+
+  test('`AsyncResult#withContext()`: If this resolves to a `Failure` `Result`, resolves to a `Failure` `Result` containing a `ContextError` with the result of applying `f` to the contained error', async () => {
+    const error = new Error('Test error')
+    const value = asyncFailure(error).withContext((error) => `Test context for ${error.message}`)
+    const contextError = await value.unwrapFailure()
+    expect(contextError.message).to.equal('Test context for Test error')
+    expect(contextError.cause).to.equal(error)
+  })
+
+  test('`AsyncResult#withContext()`: If this resolves to a `Success` `Result`, resolves to that `Result` without calling `f`', async () => {
+    const spy0 = spy(() => 'Test context')
+    const value = asyncSuccess(42).withContext(spy0)
+    expect(await value.unwrap()).to.equal(42)
+    expect(spy0.called).to.be.false
+  })
+})
@@ -0,0 +1,495 @@
+/*
+ *******************************************************************************
+ * Copyright © 2024-present Jonathan Barronville <jonathanmarvens@proton.me>   *
+ *                                                                             *
+ * Licensed under the Apache License, Version 2.0 (the "License"); you may not *
+ * use this file except in compliance with the License.                        *
+ * You may obtain a copy of the License at                                     *
+ *                                                                             *
+ *     http://www.apache.org/licenses/LICENSE-2.0                              *
+ *                                                                             *
+ * Unless required by applicable law or agreed to in writing, software         *
+ * distributed under the License is distributed on an "AS IS" BASIS, WITHOUT   *
+ * WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.            *
+ * See the License for the specific language governing permissions and         *
+ * limitations under the License.                                              *
+ *******************************************************************************
+ */
+
+import assert from './utilities/assert'
+import type AsyncMaybe from './async-maybe'
+import { asyncMaybe } from './async-maybe'
+import type { ErrorTagOf } from './error/tagged'
+import type { ExcludeTagged } from './error/tagged'
+import type { ExtractTagged } from './error/tagged'
+import { failure } from './result'
+import hasTag from './utilities/has-tag'
+import isPromiseLike from './utilities/is-promise-like'
+import { isResult } from './result'
+import type Result from './result'
+import type { ResultErrorOf } from './result'
+import type { ResultRecoveredError } from './result'
+import type { ResultValueOf } from './result'
+import { success } from './result'
+import toError from './utilities/to-error'
+
+type AsyncResultCatchTagsCases<TError> = {
+  [TTag in ErrorTagOf<TError>]?: (error: ExtractTagged<TError, TTag>) => Result<unknown, NonNullable<unknown>> | PromiseLike<Result<unknown, NonNullable<unknown>>>
+}
+
+type AsyncResultCatchTagsError<TCases> =
+  {
+    [TTag in keyof TCases]-?: TCases[TTag] extends (...args: never[]) => infer TResult ?
+      ResultRecoveredError<ResultErrorOf<Awaited<TResult>>> :
+      never
+  }[keyof TCases]
+
+type AsyncResultCatchTagsValue<TCases> =
+  {
+    [TTag in keyof TCases]-?: TCases[TTag] extends (...args: never[]) => infer TResult ?
+      ResultValueOf<Awaited<TResult>> :
+      never
+  }[keyof TCases]
+
+/**
+ * A robust abstraction for handling asynchronous operations that can either succeed or fail.
+ *
+ * An {@link AsyncResult} wraps a promise of a {@link Result} and can be awaited to obtain it.
+ */
+class AsyncResult<TValue, TError extends NonNullable<unknown>> implements PromiseLike<Result<TValue, TError>> {
+  public static make<TValue, TError extends NonNullable<unknown>>(promise: PromiseLike<Result<TValue, TError>>) {
+    return new this(promise)
+  }
+
+  #promise: Promise<Result<TValue, TError>>
+
+  private constructor(promise: PromiseLike<Result<TValue, TError>>) {
+    this.#promise = Promise.resolve(promise)
+      .then((result) => {
+        assert(isResult(result))
+        return result
+      })
+  }
+
+  #catchTags(cases: Readonly<Record<string, unknown>>): AsyncResult<unknown, NonNullable<unknown>> {
+    return AsyncResult.make(this.#promise.then(async (result): Promise<Result<unknown, NonNullable<unknown>>> => {
+      if (result.isFailure()) {
+        const error = result.unwrapFailure()
+        for (const [tag, f] of Object.entries(cases)) {
+          if (hasTag(error, tag)) {
+            assert(typeof f === 'function')
+            const other: unknown = await f(error)
+            assert(isResult(other))
+            return other
+          }
+        }
+      }
+      return result
+    }))
+  }
+
+  /**
+   * If this resolves to a `Success` {@link Result}, resolves to {@link other}.
+   * If this resolves to a `Failure` {@link Result}, resolves to that {@link Result}.
+   *
+   * @param other The {@link Result} to resolve to if this resolves to a `Success` {@link Result}.
+   */
+  public and<TOtherValue>(other: Result<TOtherValue, TError> | PromiseLike<Result<TOtherValue, TError>>) {
+    assert(isResult(other) || isPromiseLike(other))
+    return this.andThen(() => other)
+  }
+
+  /**
+   * If this resolves to a `Success` {@link Result}, resolves to the result of applying {@link f} to the contained value.
+   * If this resolves to a `Failure` {@link Result}, resolves to that {@link Result}.
+   *
+   * The error type of the returned {@link AsyncResult} is widened to include the error type of the {@link Result} returned by {@link f}.
+   *
+   * @param f The function to apply to the contained value.
+   */
+  public andThen<TOtherValue>(f: (value: TValue) => Result<TOtherValue, TError> | PromiseLike<Result<TOtherValue, TError>>): AsyncResult<TOtherValue, TError>
+  public andThen<TOtherValue, TOtherError extends NonNullable<unknown>>(f: (value: TValue) => Result<TOtherValue, TOtherError> | PromiseLike<Result<TOtherValue, TOtherError>>): AsyncResult<TOtherValue, TError | TOtherError>
+  public andThen<TOtherValue, TOtherError extends NonNullable<unknown>>(f: (value: TValue) => Result<TOtherValue, TOtherError> | PromiseLike<Result<TOtherValue, TOtherError>>) {
+    assert(typeof f === 'function')
+    return AsyncResult.make(this.#promise.then(async (result): Promise<Result<TOtherValue, TError | TOtherError>> => {
+      if (result.isFailure()) {
+        return failure<TOtherValue, TError | TOtherError>(result.unwrapFailure())
+      }
+      const other = await f(result.unwrap())
+      assert(isResult(other))
+      return other
+    }))
+  }
+
+  /**
+   * If this resolves to a `Failure` {@link Result} containing an error whose `_tag` property is {@link tag}, resolves to the result of applying {@link f} to the contained error.
+   * Otherwise, resolves to that {@link Result}.
+   *
+   * The errors tagged with {@link tag} are removed from the error type of the returned {@link AsyncResult}, in favor of the error type of the {@link Result} returned by {@link f}.
+   *
+   * @param tag The tag of the errors to recover from.
+   * @param f The function to apply to the contained error.
+   */
+  public catchTag<TTag extends ErrorTagOf<TError>, TOtherValue = TValue, TOtherError extends NonNullable<unknown> = never>(tag: TTag, f: (error: ExtractTagged<TError, TTag>) => Result<TOtherValue, TOtherError> | PromiseLike<Result<TOtherValue, TOtherError>>): AsyncResult<TValue | TOtherValue, ExcludeTagged<TError, TTag> | ResultRecoveredError<TOtherError>> {
+    assert(typeof tag === 'string')
+    assert(typeof f === 'function')
+    return this.#catchTags({ [tag]: f }) as AsyncResult<TValue | TOtherValue, ExcludeTagged<TError, TTag> | ResultRecoveredError<TOtherError>>
+  }
+
+  /**
+   * If this resolves to a `Failure` {@link Result} containing an error whose `_tag` property is a key of {@link cases}, resolves to the result of applying the function in {@link cases} named by that tag to the contained error.
+   * Otherwise, resolves to that {@link Result}.
+   *
+   * The errors tagged with a key of {@link cases} are removed from the error type of the returned {@link AsyncResult}, in favor of the error types of the {@link Result}s returned by the functions in {@link cases}.
+   *
+   * @param cases The functions to apply to the contained error, keyed by the tags of the errors to recover from.
+   */
+  public catchTags<TCases extends AsyncResultCatchTagsCases<TError>>(cases: TCases): AsyncResult<TValue | AsyncResultCatchTagsValue<TCases>, ExcludeTagged<TError, keyof TCases & string> | AsyncResultCatchTagsError<TCases>> {
+    assert((typeof cases === 'object') && (cases !== null))
+    return this.#catchTags(cases) as AsyncResult<TValue | AsyncResultCatchTagsValue<TCases>, ExcludeTagged<TError, keyof TCases & string> | AsyncResultCatchTagsError<TCases>>
+  }
+
+  /**
+   * If this resolves to a `Success` {@link Result}, resolves to that {@link Result}.
+   * If this resolves to a `Failure` {@link Result}, resolves to a `Failure` {@link Result} containing a {@link ContextError} with the provided {@link message}, whose `cause` is the contained error.
+   *
+   * @param message The message describing what was being done when the contained error occurred.
+   */
+  public context(message: string) {
+    assert(typeof message === 'string')
+    return AsyncResult.make(this.#promise.then((result) => result.context(message)))
+  }
+
+  /**
+   * If this resolves to a `Success` {@link Result}, resolves to the contained value.
+   * If this resolves to a `Failure` {@link Result}, rejects with an {@link ExpectationError} with the provided {@link message}.
+   *
+   * @param message The message to include in the {@link ExpectationError}.
+   */
+  public async expect(message: string) {
+    assert(typeof message === 'string')
+    const result = await this.#promise
+    return result.expect(message)
+  }
+
+  /**
+   * If this resolves to a `Success` {@link Result}, rejects with an {@link ExpectationError} with the provided {@link message}.
+   * If this resolves to a `Failure` {@link Result}, resolves to the contained error.
+   *
+   * @param message The message to include in the {@link ExpectationError}.
+   */
+  public async expectFailure(message: string) {
+    assert(typeof message === 'string')
+    const result = await this.#promise
+    return result.expectFailure(message)
+  }
+
+  /**
+   * If this resolves to a `Success` {@link Result}, returns an {@link AsyncMaybe} that resolves to a `Nothing` {@link Maybe}.
+   * If this resolves to a `Failure` {@link Result}, returns an {@link AsyncMaybe} that resolves to a `Something` {@link Maybe} containing the contained error.
+   */
+  public getFailure(): AsyncMaybe<TError> {
+    return asyncMaybe(this.#promise.then((result) => {
+      return result.getFailure()
+    }))
+  }
+
+  /**
+   * If this resolves to a `Success` {@link Result}, returns an {@link AsyncMaybe} that resolves to a `Something` {@link Maybe} containing the contained value.
+   * If this resolves to a `Failure` {@link Result}, returns an {@link AsyncMaybe} that resolves to a `Nothing` {@link Maybe}.
+   */
+  public getSuccess(): AsyncMaybe<TValue> {
+    return asyncMaybe(this.#promise.then((result) => {
+      return result.getSuccess()
+    }))
+  }
+
+  /**
+   * If this resolves to a `Success` {@link Result}, applies {@link f} to the contained value and resolves to that {@link Result}.
+   * If this resolves to a `Failure` {@link Result}, resolves to that {@link Result}.
+   *
+   * If {@link f} returns a promise, it is awaited before resolving.
+   *
+   * @param f The function to apply to the contained value.
+   */
+  public inspect(f: (value: TValue) => void | PromiseLike<void>) {
+    assert(typeof f === 'function')
+    return AsyncResult.make(this.#promise.then(async (result) => {
+      if (result.isSuccess()) {
+        await f(result.unwrap())
+      }
+      return result
+    }))
+  }
+
+  /**
+   * If this resolves to a `Success` {@link Result}, resolves to that {@link Result}.
+   * If this resolves to a `Failure` {@link Result}, applies {@link f} to the contained error and resolves to that {@link Result}.
+   *
+   * If {@link f} returns a promise, it is awaited before resolving.
+   *
+   * @param f The function to apply to the contained error.
+   */
+  public inspectFailure(f: (error: TError) => void | PromiseLike<void>) {
+    assert(typeof f === 'function')
+    return AsyncResult.make(this.#promise.then(async (result) => {
+      if (result.isFailure()) {
+        await f(result.unwrapFailure())
+      }
+      return result
+    }))
+  }
+
+  /**
+   * If this resolves to a `Success` {@link Result}, resolves to `false`.
+   * If this resolves to a `Failure` {@link Result}, resolves to `true`.
+   */
+  public async isFailure() {
+    const result = await this.#promise
+    return result.isFailure()
+  }
+
+  /**
+   * If this resolves to a `Success` {@link Result}, resolves to `false`.
+   * If this resolves to a `Failure` {@link Result}, resolves to the result of applying {@link predicate} to the contained error.
+   *
+   * @param predicate The predicate to apply to the contained error.
+   */
+  public async isFailureAnd(predicate: (error: TError) => boolean | PromiseLike<boolean>) {
+    assert(typeof predicate === 'function')
+    const result = await this.#promise
+    if (result.isSuccess()) {
+      return false
+    }
+    const isSatified = await predicate(result.unwrapFailure())
+    assert(typeof isSatified === 'boolean')
+    return isSatified
+  }
+
+  /**
+   * If this resolves to a `Success` {@link Result}, resolves to `true`.
+   * If this resolves to a `Failure` {@link Result}, resolves to `false`.
+   */
+  public async isSuccess() {
+    const result = await this.#promise
+    return result.isSuccess()
+  }
+
+  /**
+   * If this resolves to a `Success` {@link Result}, resolves to the result of applying {@link predicate} to the contained value.
+   * If this resolves to a `Failure` {@link Result}, resolves to `false`.
+   *
+   * @param predicate The predicate to apply to the contained value.
+   */
+  public async isSuccessAnd(predicate: (value: TValue) => boolean | PromiseLike<boolean>) {
+    assert(typeof predicate === 'function')
+    const result = await this.#promise
+    if (result.isFailure()) {
+      return false
+    }
+    const isSatified = await predicate(result.unwrap())
+    assert(typeof isSatified === 'boolean')
+    return isSatified
+  }
+
+  /**
+   * If this resolves to a `Success` {@link Result}, resolves to a `Success` {@link Result} containing the result of applying {@link f} to the contained value.
+   * If this resolves to a `Failure` {@link Result}, resolves to that {@link Result}.
+   *
+   * @param f The function to apply to the contained value.
+   */
+  public map<TNewValue>(f: (value: TValue) => TNewValue | PromiseLike<TNewValue>) {
+    assert(typeof f === 'function')
+    return this.andThen(async (value) => {
+      return success<TNewValue, TError>(await f(value))
+    })
+  }
+
+  /**
+   * If this resolves to a `Success` {@link Result}, resolves to that {@link Result}.
+   * If this resolves to a `Failure` {@link Result}, resolves to a `Failure` {@link Result} containing the result of applying {@link f} to the contained error.
+   *
+   * @param f The function to apply to the contained error.
+   */
+  public mapFailure<TNewError extends NonNullable<unknown>>(f: (error: TError) => TNewError | PromiseLike<TNewError>) {
+    assert(typeof f === 'function')
+    return AsyncResult.make(this.#promise.then(async (result) => {
+      if (result.isSuccess()) {
+        return success<TValue, TNewError>(result.unwrap())
+      }
+      return failure<TValue, TNewError>(await f(result.unwrapFailure()))
+    }))
+  }
+
+  /**
+   * If this resolves to a `Success` {@link Result}, resolves to that {@link Result}.
+   * If this resolves to a `Failure` {@link Result}, resolves to {@link other}.
+   *
+   * @param other The {@link Result} to resolve to if this resolves to a `Failure` {@link Result}.
+   */
+  public or<TOtherError extends NonNullable<unknown>>(other: Result<TValue, TOtherError> | PromiseLike<Result<TValue, TOtherError>>) {
+    assert(isResult(other) || isPromiseLike(other))
+    return AsyncResult.make(this.#promise.then(async (result) => {
+      if (result.isSuccess()) {
+        return success<TValue, TOtherError>(result.unwrap())
+      }
+      const otherResult = await other
+      assert(isResult(otherResult))
+      return otherResult
+    }))
+  }
+
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the underlying promise of a {@link Result}.
+   *
+   * @param onFulfilled The callback to execute when the underlying promise resolves.
+   * @param onRejected The callback to execute when the underlying promise rejects.
+   */
+  public then<TResult1 = Result<TValue, TError>, TResult2 = never>(
+    onFulfilled?: ((value: Result<TValue, TError>) => TResult1 | PromiseLike<TResult1>) | null,
+    onRejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null,
+  ) {
+    return this.#promise.then(onFulfilled, onRejected)
+  }
+
+  public toString() {
+    return 'AsyncResult{}'
+  }
+
+  /**
+   * If this resolves to a `Success` {@link Result}, resolves to the contained value.
+   * If this resolves to a `Failure` {@link Result}, rejects with an {@link ImproperUnwrapError}.
+   */
+  public async unwrap() {
+    const result = await this.#promise
+    return result.unwrap()
+  }
+
+  /**
+   * If this resolves to a `Success` {@link Result}, rejects with an {@link ImproperUnwrapError}.
+   * If this resolves to a `Failure` {@link Result}, resolves to the contained error.
+   */
+  public async unwrapFailure() {
+    const result = await this.#promise
+    return result.unwrapFailure()
+  }
+
+  /**
+   * If this resolves to a `Success` {@link Result}, resolves to that {@link Result} without calling {@link f}.
+   * If this resolves to a `Failure` {@link Result}, resolves to a `Failure` {@link Result} containing a {@link ContextError} with the result of applying {@link f} to the contained error as its message, and the contained error as its `cause`.
+   *
+   * @param f The function that returns the message describing what was being done when the contained error occurred.
+   */
+  public withContext(f: (error: TError) => string) {
+    assert(typeof f === 'function')
+    return AsyncResult.make(this.#promise.then((result) => result.withContext(f)))
+  }
+}
+
+type AsyncResultBinder =
+  <TValue, TError extends NonNullable<unknown>>(result: Result<TValue, TError> | PromiseLike<Result<TValue, TError>>) => AsyncGenerator<Result<TValue, TError>, TValue, unknown>
+
+async function* bindAsyncResult<TValue, TError extends NonNullable<unknown>>(result: Result<TValue, TError> | PromiseLike<Result<TValue, TError>>): AsyncGenerator<Result<TValue, TError>, TValue, unknown> {
+  assert(isResult(result) || isPromiseLike(result))
+  const value = yield await result
+  return value as TValue
+}
+
+/**
+ * Checks if the provided {@link value} is an {@link AsyncResult}.
+ *
+ * @param value The value to check.
+ */
+function isAsyncResult(value: unknown): value is AsyncResult<unknown, NonNullable<unknown>> {
+  return (value instanceof AsyncResult)
+}
+
+/**
+ * Creates and returns a new {@link AsyncResult} that resolves to the provided {@link result}.
+ *
+ * @param result The {@link Result}, or promise of a {@link Result}, to lift into the new {@link AsyncResult}.
+ */
+function asyncResult<TValue, TError extends NonNullable<unknown>>(result: Result<TValue, TError> | PromiseLike<Result<TValue, TError>>): AsyncResult<TValue, TError> {
+  assert(isResult(result) || isPromiseLike(result))
+  return AsyncResult.make(Promise.resolve(result))
+}
+
+/**
+ * Creates and returns a new {@link AsyncResult} that resolves to a `Failure` {@link Result} containing the provided {@link error}.
+ *
+ * @param error The error to contain in the `Failure` {@link Result}.
+ */
+function asyncFailure<TValue = any, TError extends NonNullable<unknown> = any>(error: TError): AsyncResult<TValue, TError> {
+  return asyncResult(failure<TValue, TError>(error))
+}
+
+/**
+ * Runs the async generator returned by {@link f} as a block of {@link Result}-returning steps.
+ *
+ * Inside the generator, `yield* bind(result)` evaluates to the contained value if `result` (or the {@link Result} it resolves to) is a `Success` {@link Result}.
+ * The first `Failure` {@link Result} bound this way stops the generator and is resolved to as the outcome of the whole block.
+ * If the generator completes, resolves to a `Success` {@link Result} containing its return value.
+ *
+ * @param f The async generator function to run, which receives the `bind` function.
+ */
+function genAsyncResult<TYield extends Result<unknown, NonNullable<unknown>>, TValue>(f: (bind: AsyncResultBinder) => AsyncGenerator<TYield, TValue, unknown>): AsyncResult<TValue, ResultErrorOf<TYield>> {
+  assert(typeof f === 'function')
+  const iterator: AsyncIterator<TYield, TValue, unknown> = f(bindAsyncResult)
+  return AsyncResult.make((async () => {
+    let step = await iterator.next()
+    while (!step.done) {
+      const result = step.value
+      assert(isResult(result))
+      if (result.isFailure()) {
+        await iterator.return?.()
+        return failure<TValue, ResultErrorOf<TYield>>(result.unwrapFailure() as ResultErrorOf<TYield>)
+      }
+      step = await iterator.next(result.unwrap())
+    }
+    return success<TValue, ResultErrorOf<TYield>>(step.value)
+  })())
+}
+
+/**
+ * Creates and returns a new {@link AsyncResult} that resolves to a `Success` {@link Result} containing the provided {@link value}.
+ *
+ * @param value The value to contain in the `Success` {@link Result}.
+ */
+function asyncSuccess<TValue = any, TError extends NonNullable<unknown> = any>(value: TValue): AsyncResult<TValue, TError> {
+  return asyncResult(success<TValue, TError>(value))
+}
+
+/**
+ * Calls {@link f} and returns an {@link AsyncResult} that resolves to a `Success` {@link Result} containing the value it resolves to.
+ * If {@link f} throws or rejects, resolves to a `Failure` {@link Result} containing the result of applying {@link mapError} to the thrown value or rejection reason.
+ *
+ * Without {@link mapError}, an `Error` is contained as is, and any other value (including `undefined` and `null`) is wrapped in a {@link ThrownValueError}.
+ *
+ * @param f The function to call.
+ * @param mapError The function to apply to a thrown value or rejection reason to produce the error.
+ */
+function tryCatchAsync<TValue>(f: () => TValue | PromiseLike<TValue>): AsyncResult<TValue, Error>
+function tryCatchAsync<TValue, TError extends NonNullable<unknown>>(f: () => TValue | PromiseLike<TValue>, mapError: (error: unknown) => TError | PromiseLike<TError>): AsyncResult<TValue, TError>
+function tryCatchAsync<TValue>(f: () => TValue | PromiseLike<TValue>, mapError: (error: unknown) => NonNullable<unknown> | PromiseLike<NonNullable<unknown>> = toError) {
+  assert(typeof f === 'function')
+  assert(typeof mapError === 'function')
+  return AsyncResult.make((async () => {
+    let value: TValue
+    try {
+      value = await f()
+    } catch (error) {
+      return failure<TValue, NonNullable<unknown>>(await mapError(error))
+    }
+    return success<TValue, NonNullable<unknown>>(value)
+  })())
+}
+
+export {
+  type AsyncResult as default,
+  asyncFailure,
+  asyncResult,
+  asyncSuccess,
+  genAsyncResult,
+  isAsyncResult,
+  tryCatchAsync,
+}
@@ -0,0 +1,191 @@
+/*
+ *******************************************************************************
+ * Copyright © 2024-present Jonathan Barronville <jonathanmarvens@proton.me>   *
+ *                                                                             *
+ * Licensed under the Apache License, Version 2.0 (the "License"); you may not *
+ * use this file except in compliance with the License.                        *
+ * You may obtain a copy of the License at                                     *
+ *                                                                             *
+ *     http://www.apache.org/licenses/LICENSE-2.0                              *
+ *                                                                             *
+ * Unless required by applicable law or agreed to in writing, software         *
+ * distributed under the License is distributed on an "AS IS" BASIS, WITHOUT   *
+ * WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.            *
+ * See the License for the specific language governing permissions and         *
+ * limitations under the License.                                              *
+ *******************************************************************************
+ */
+
+import { array } from './decoder'
+import { boolean } from './decoder'
+import DecodeError from './error/decode'
+import type { DecoderValueOf } from './decoder'
+import { expect } from 'chai'
+import { literal } from './decoder'
+import type Maybe from './maybe'
+import { number } from './decoder'
+import { object } from './decoder'
+import { optional } from './decoder'
+import { record } from './decoder'
+import { refine } from './decoder'
+import { string } from './decoder'
+import { suite } from 'mocha'
+import { test } from 'mocha'
+import { union } from './decoder'
+import { unknown } from './decoder'
+
+test('`array()`: Decodes an array whose every element is accepted by `decoder`', async () => {
+  const value: number[] = array(number).decode([1, 2, 3]).unwrap()
+  expect(value).to.deep.equal([1, 2, 3])
+})
+
+test('`array()`: Reports an issue for every rejected element', async () => {
+  const error = array(number).decode([1, 'two', 3, null]).unwrapFailure()
+  expect(error).to.be.an.instanceOf(DecodeError)
+  expect(error.issues).to.deep.equal([
+    { actual: '"two"', expected: 'number', path: '$[1]' },
+    { actual: 'null', expected: 'number', path: '$[3]' },
+  ])
+})
+
+test('`array()`: Rejects a non-array value', async () => {
+  const error = array(number).decode({ 0: 1 }).unwrapFailure()
+  expect(error.issues).to.deep.equal([{ actual: 'an object', expected: 'Array<number>', path: '$' }])
+})
+
+test('`boolean`, `number` and `string`: Decode the corresponding primitive', async () => {
+  expect(boolean.decode(true).unwrap()).to.be.true
+  expect(number.decode(42).unwrap()).to.equal(42)
+  expect(string.decode('Ada').unwrap()).to.equal('Ada')
+  expect(boolean.decode('true').isFailure()).to.be.true
+  expect(number.decode('42').isFailure()).to.be.true
+  expect(string.decode(undefined).isFailure()).to.be.true
+})
+
+test('`boolean`, `number` and `string`: Infer exactly the corresponding primitive type', async () => {
+  const isExact: [
+    (<T>() => T extends DecoderValueOf<typeof boolean> ? 1 : 2) extends (<T>() => T extends boolean ? 1 : 2) ? true : false,
+    (<T>() => T extends DecoderValueOf<typeof number> ? 1 : 2) extends (<T>() => T extends number ? 1 : 2) ? true : false,
+    (<T>() => T extends DecoderValueOf<typeof string> ? 1 : 2) extends (<T>() => T extends string ? 1 : 2) ? true : false,
+    (<T>() => T extends DecoderValueOf<ReturnType<typeof object<{ id: typeof number }>>> ? 1 : 2) extends (<T>() => T extends { id: number } ? 1 : 2) ? true : false,
+  ] = [true, true, true, true]
+  expect(isExact).to.deep.equal([true, true, true, true])
+})
+
+test('`literal()`: Decodes one of the provided literals', async () => {
+  const decoder = literal('admin', 'user', null)
+  const value: 'admin' | 'user' | null = decoder.decode('user').unwrap()
+  expect(value).to.equal('user')
+  expect(decoder.decode(null).unwrap()).to.be.null
+  expect(decoder.decode('root').unwrapFailure().issues).to.deep.equal([{ actual: '"root"', expected: '"admin" | "user" | null', path: '$' }])
+})
+
+test('`object()`: Decodes an object whose properties are accepted by the corresponding decoders, ignoring any other property', async () => {
+  const decoder = object({ age: number, name: string })
+  const value: { age: number, name: string } = decoder.decode({ age: 36, extra: true, name: 'Ada' }).unwrap()
+  expect(value).to.deep.equal({ age: 36, name: 'Ada' })
+})
+
+test('`object()`: Reports an issue with a JSON path for every rejected property, at any depth', async () => {
+  const decoder = object({ name: string, tags: array(string), user: object({ id: number }) })
+  const error = decoder.decode({ tags: ['a', 1], user: { id: '1' } }).unwrapFailure()
+  expect(error.issues).to.deep.equal([
+    { actual: 'undefined', expected: 'string', path: '$.name' },
+    { actual: '1', expected: 'string', path: '$.tags[1]' },
+    { actual: '"1"', expected: 'number', path: '$.user.id' },
+  ])
+  expect(error.message).to.equal([
+    'Expected string at `$.name`, got undefined',
+    'Expected string at `$.tags[1]`, got 1',
+    'Expected number at `$.user.id`, got "1"',
+  ].join('\n'))
+})
+
+test('`object()`: Does not read inherited properties', async () => {
+  const error = object({ toString: string }).decode({}).unwrapFailure()
+  expect(error.issues).to.deep.equal([{ actual: 'undefined', expected: 'string', path: '$.toString' }])
+})
+
+test('`object()`: Escapes keys that are not identifiers in the JSON path', async () => {
+  const error = object({ 'first name': string, 'user': object({ 'a.b': number }) }).decode({ 'user': { 'a.b': '1' } }).unwrapFailure()
+  expect(error.issues).to.deep.equal([
+    { actual: 'undefined', expected: 'string', path: '$["first name"]' },
+    { actual: '"1"', expected: 'number', path: '$.user["a.b"]' },
+  ])
+})
+
+test('`optional()`: Decodes a missing, `undefined` or `null` value as a `Nothing` `Maybe`', async () => {
+  const decoder = object({ nickname: optional(string) })
+  const value: { nickname: Maybe<string> } = decoder.decode({}).unwrap()
+  expect(value.nickname.isNothing()).to.be.true
+  expect(decoder.decode({ nickname: null }).unwrap().nickname.isNothing()).to.be.true
+})
+
+test('`optional()`: Decodes a present value as a `Something` `Maybe`', async () => {
+  const decoder = optional(string)
+  expect(decoder.decode('Ada').unwrap().unwrap()).to.equal('Ada')
+  expect(decoder.decode(42).unwrapFailure().issues).to.deep.equal([{ actual: '42', expected: 'string', path: '$' }])
+})
+
+test('`record()`: Decodes an object whose every property is accepted by `decoder`', async () => {
+  const decoder = record(number)
+  const value: Record<string, number> = decoder.decode({ a: 1, b: 2 }).unwrap()
+  expect(value).to.deep.equal({ a: 1, b: 2 })
+  expect(decoder.decode({ a: 1, b: 'two' }).unwrapFailure().issues).to.deep.equal([{ actual: '"two"', expected: 'number', path: '$.b' }])
+  expect(decoder.decode([]).unwrapFailure().issues).to.deep.equal([{ actual: 'an array', expected: 'Record<string, number>', path: '$' }])
+})
+
+test('`record()`: Escapes keys that are not identifiers in the JSON path', async () => {
+  const error = record(number).decode({ '0': 'zero', 'a-b': 'one', 'a.b': 'two' }).unwrapFailure()
+  expect(error.issues.map((issue) => issue.path)).to.deep.equal(['$["0"]', '$["a-b"]', '$["a.b"]'])
+})
+
+test('`refine()`: Decodes a value that satisfies `predicate`', async () => {
+  const decoder = refine(number, (value) => Number.isInteger(value) && (value >= 0), 'non-negative integer')
+  expect(decoder.decode(42).unwrap()).to.equal(42)
+  expect(decoder.decode(-1).unwrapFailure().issues).to.deep.equal([{ actual: '-1', expected: 'non-negative integer', path: '$' }])
+  expect(decoder.decode('42').unwrapFailure().issues).to.deep.equal([{ actual: '"42"', expected: 'number', path: '$' }])
+})
+
+test('`refine()`: Narrows the decoded value if `predicate` is a type guard', async () => {
+  const decoder = refine(string, (value): value is `#${string}` => value.startsWith('#'), 'hex color')
+  const value: `#${string}` = decoder.decode('#fff').unwrap()
+  expect(value).to.equal('#fff')
+})
+
+test('`union()`: Decodes a value with the first decoder that accepts it', async () => {
+  const decoder = union(number, object({ value: number }))
+  const value: number | { value: number } = decoder.decode({ value: 42 }).unwrap()
+  expect(value).to.deep.equal({ value: 42 })
+  expect(decoder.decode(42).unwrap()).to.equal(42)
+})
+
+test('`union()`: If no decoder accepts the value, reports a single issue listing every alternative', async () => {
+  const error = union(number, string).decode(true).unwrapFailure()
+  expect(error.issues).to.deep.equal([{ actual: 'true', expected: 'number | string', path: '$' }])
+})
+
+test('`unknown`: Accepts any value as is', async () => {
+  const value = Symbol('Test value')
+  expect(unknown.decode(value).unwrap()).to.equal(value)
+})
+
+suite('`Decoder`', function () {
+  test('`Decoder#description`: Describes the accepted values', async () => {
+    const decoder = object({ id: number, role: literal('admin', 'user'), tags: array(string) })
+    expect(decoder.description).to.equal('{ id: number, role: "admin" | "user", tags: Array<string> }')
+  })
+
+  test('`Decoder#validate()`: Returns a `Validation` containing every issue', async () => {
+    const value = object({ a: number, b: number }).validate({})
+    expect(value.isInvalid()).to.be.true
+    expect(value.unwrapFailures()).to.have.lengthOf(2)
+  })
+
+  test('`DecoderValueOf`: Infers the static type of the decoded values', async () => {
+    const decoder = object({ id: number, nickname: optional(string), role: union(literal('admin'), literal('user')) })
+    const value: { id: number, nickname: Maybe<string>, role: 'admin' | 'user' } = decoder.decode({ id: 1, role: 'user' }).unwrap()
+    const other: DecoderValueOf<typeof decoder> = value
+    expect(other.role).to.equal('user')
+  })
+})
@@ -0,0 +1,347 @@
+/*
+ *******************************************************************************
+ * Copyright © 2024-present Jonathan Barronville <jonathanmarvens@proton.me>   *
+ *                                                                             *
+ * Licensed under the Apache License, Version 2.0 (the "License"); you may not *
+ * use this file except in compliance with the License.                        *
+ * You may obtain a copy of the License at                                     *
+ *                                                                             *
+ *     http://www.apache.org/licenses/LICENSE-2.0                              *
+ *                                                                             *
+ * Unless required by applicable law or agreed to in writing, software         *
+ * distributed under the License is distributed on an "AS IS" BASIS, WITHOUT   *
+ * WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.            *
+ * See the License for the specific language governing permissions and         *
+ * limitations under the License.                                              *
+ *******************************************************************************
+ */
+
+import { allValidations } from './validation'
+import appendKey from './utilities/append-key'
+import assert from './utilities/assert'
+import DecodeError from './error/decode'
+import type { DecodeIssue } from './error/decode'
+import { invalid } from './validation'
+import { isValidation } from './validation'
+import type Maybe from './maybe'
+import { nothing } from './maybe'
+import type Result from './result'
+import { something } from './maybe'
+import { structValidations } from './validation'
+import { valid } from './validation'
+import type Validation from './validation'
+
+type DecoderShape =
+  Readonly<Record<string, Decoder<unknown>>>
+
+type DecoderShapeValue<TShape extends DecoderShape> = {
+  -readonly [TKey in keyof TShape]: DecoderValueOf<TShape[TKey]>
+}
+
+type DecoderValueOf<TDecoder> =
+  TDecoder extends Decoder<infer TValue> ?
+    TValue :
+    never
+
+type Literal =
+  | boolean
+  | null
+  | number
+  | string
+
+/**
+ * Decodes an `unknown` value, typically produced by `JSON.parse()`, into a value of type {@link TValue}.
+ */
+class Decoder<TValue> {
+  public static make<TValue>(description: string, f: (value: unknown) => Validation<TValue, DecodeIssue>) {
+    return new this(description, f)
+  }
+
+  #description: string
+
+  #f: (value: unknown) => Validation<TValue, DecodeIssue>
+
+  private constructor(description: string, f: (value: unknown) => Validation<TValue, DecodeIssue>) {
+    this.#description = description
+    this.#f = f
+  }
+
+  /**
+   * A description of the values this {@link Decoder} accepts, used as the expected description of the issues it reports.
+   */
+  public get description() {
+    return this.#description
+  }
+
+  /**
+   * If {@link value} is accepted by this {@link Decoder}, returns a `Success` {@link Result} containing the decoded value.
+   * Otherwise, returns a `Failure` {@link Result} containing a {@link DecodeError} with an issue for every problem found.
+   *
+   * @param value The value to decode.
+   */
+  public decode(value: unknown): Result<TValue, DecodeError> {
+    return this.validate(value)
+      .toResult()
+      .mapFailure((issues) => {
+        const message = issues
+          .map((issue) => `Expected ${issue.expected} at \`${issue.path}\`, got ${issue.actual}`)
+          .join('\n')
+        return new DecodeError(message, issues)
+      })
+  }
+
+  /**
+   * If {@link value} is accepted by this {@link Decoder}, returns a `Valid` {@link Validation} containing the decoded value.
+   * Otherwise, returns an `Invalid` {@link Validation} containing an issue for every problem found.
+   *
+   * @param value The value to decode.
+   */
+  public validate(value: unknown): Validation<TValue, DecodeIssue> {
+    const validation = this.#f(value)
+    assert(isValidation(validation))
+    return validation
+  }
+}
+
+function describeLiteral(literal: Literal) {
+  return (typeof literal === 'string') ?
+    JSON.stringify(literal) :
+    `${literal}`
+}
+
+function describeValue(value: unknown) {
+  if (Array.isArray(value)) {
+    return 'an array'
+  }
+  switch (typeof value) {
+    case 'bigint':
+      return `${value}n`
+    case 'boolean':
+    case 'number':
+    case 'undefined':
+      return `${value}`
+    case 'function':
+      return 'a function'
+    case 'object':
+      return (value === null) ?
+        'null' :
+        'an object'
+    case 'string':
+      return JSON.stringify(value)
+    case 'symbol':
+      return 'a symbol'
+  }
+}
+
+function isObject(value: unknown): value is Readonly<Record<string, unknown>> {
+  return (typeof value === 'object') && (value !== null) && !Array.isArray(value)
+}
+
+function makeIssue(expected: string, value: unknown): DecodeIssue {
+  return {
+    actual: describeValue(value),
+    expected,
+    path: '$',
+  }
+}
+
+function makePrimitiveDecoder<TValue>(expected: string, isValue: (value: unknown) => value is TValue): Decoder<TValue> {
+  return Decoder.make(expected, (value) => {
+    return isValue(value) ?
+      valid<TValue, DecodeIssue>(value) :
+      invalid<TValue, DecodeIssue>(makeIssue(expected, value))
+  })
+}
+
+function prefixIssue(issue: DecodeIssue, prefix: string): DecodeIssue {
+  return {
+    ...issue,
+    path: `${prefix}${issue.path.slice(1)}`,
+  }
+}
+
+/**
+ * Accepts a boolean.
+ */
+const booleanDecoder = makePrimitiveDecoder<boolean>('boolean', (value) => typeof value === 'boolean')
+
+/**
+ * Accepts a number.
+ */
+const numberDecoder = makePrimitiveDecoder<number>('number', (value) => typeof value === 'number')
+
+/**
+ * Accepts a string.
+ */
+const stringDecoder = makePrimitiveDecoder<string>('string', (value) => typeof value === 'string')
+
+/**
+ * Accepts any value as is.
+ */
+const unknownDecoder = Decoder.make('unknown', (value) => valid(value))
+
+/**
+ * Creates and returns a {@link Decoder} that accepts an array whose every element is accepted by {@link decoder}.
+ *
+ * Every element is decoded, so the issues of every rejected element are reported.
+ *
+ * @param decoder The {@link Decoder} to decode each element with.
+ */
+function array<TValue>(decoder: Decoder<TValue>): Decoder<TValue[]> {
+  assert(decoder instanceof Decoder)
+  const expected = `Array<${decoder.description}>`
+  return Decoder.make(expected, (value) => {
+    if (!Array.isArray(value)) {
+      return invalid(makeIssue(expected, value))
+    }
+    return allValidations(value.map((element: unknown, index) => {
+      return decoder.validate(element).mapFailure((issue) => prefixIssue(issue, `$[${index}]`))
+    }))
+  })
+}
+
+/**
+ * Creates and returns a {@link Decoder} that accepts one of the provided {@link literals}, compared with `===`.
+ *
+ * @param literals The values to accept.
+ */
+function literal<const TLiterals extends readonly Literal[]>(...literals: TLiterals): Decoder<TLiterals[number]> {
+  assert(literals.length > 0)
+  const expected = literals.map(describeLiteral).join(' | ')
+  return Decoder.make(expected, (value) => {
+    return literals.includes(value as Literal) ?
+      valid(value as TLiterals[number]) :
+      invalid(makeIssue(expected, value))
+  })
+}
+
+/**
+ * Creates and returns a {@link Decoder} that accepts an object whose properties are accepted by the corresponding {@link Decoder}s in {@link shape}.
+ *
+ * The decoded object only has the properties in {@link shape}; any other property is ignored.
+ * A missing property is decoded as `undefined`, so it is only accepted by a {@link Decoder} created by {@link optional}.
+ * Every property is decoded, so the issues of every rejected property are reported.
+ *
+ * @param shape The {@link Decoder}s to decode each property with.
+ */
+function object<TShape extends DecoderShape>(shape: TShape): Decoder<DecoderShapeValue<TShape>> {
+  assert((typeof shape === 'object') && (shape !== null))
+  for (const decoder of Object.values(shape)) {
+    assert(decoder instanceof Decoder)
+  }
+  const expected = `{ ${Object.entries(shape).map(([key, decoder]) => `${key}: ${decoder.description}`).join(', ')} }`
+  return Decoder.make(expected, (value) => {
+    if (!isObject(value)) {
+      return invalid(makeIssue(expected, value))
+    }
+    const validations = Object.entries(shape).map(([key, decoder]) => {
+      const property = Object.hasOwn(value, key) ?
+        value[key] :
+        undefined
+      return [key, decoder.validate(property).mapFailure((issue) => prefixIssue(issue, appendKey('$', key)))] as const
+    })
+    return structValidations(Object.fromEntries(validations)) as Validation<DecoderShapeValue<TShape>, DecodeIssue>
+  })
+}
+
+/**
+ * Creates and returns a {@link Decoder} that decodes `undefined` and `null` as a `Nothing` {@link Maybe}, and any other value accepted by {@link decoder} as a `Something` {@link Maybe} containing the decoded value.
+ *
+ * @param decoder The {@link Decoder} to decode a present value with.
+ */
+function optional<TValue>(decoder: Decoder<TValue>): Decoder<Maybe<TValue>> {
+  assert(decoder instanceof Decoder)
+  const expected = `${decoder.description} | null | undefined`
+  return Decoder.make(expected, (value) => {
+    return ((typeof value === 'undefined') || (value === null)) ?
+      valid(nothing<TValue>()) :
+      decoder.validate(value).map((value) => something(value))
+  })
+}
+
+/**
+ * Creates and returns a {@link Decoder} that accepts an object whose every property is accepted by {@link decoder}.
+ *
+ * Every property is decoded, so the issues of every rejected property are reported.
+ *
+ * @param decoder The {@link Decoder} to decode each property with.
+ */
+function record<TValue>(decoder: Decoder<TValue>): Decoder<Record<string, TValue>> {
+  assert(decoder instanceof Decoder)
+  const expected = `Record<string, ${decoder.description}>`
+  return Decoder.make(expected, (value) => {
+    if (!isObject(value)) {
+      return invalid(makeIssue(expected, value))
+    }
+    const validations = Object.entries(value).map(([key, property]) => {
+      return [key, decoder.validate(property).mapFailure((issue) => prefixIssue(issue, appendKey('$', key)))] as const
+    })
+    return structValidations(Object.fromEntries(validations)) as Validation<Record<string, TValue>, DecodeIssue>
+  })
+}
+
+/**
+ * Creates and returns a {@link Decoder} that accepts the values accepted by {@link decoder} that also satisfy {@link predicate}.
+ *
+ * If {@link predicate} is a type guard, the decoded value is narrowed accordingly.
+ *
+ * @param decoder The {@link Decoder} to decode the value with.
+ * @param predicate The predicate that the decoded value must satisfy.
+ * @param description A description of the values that satisfy {@link predicate}, used as the expected description of the issue reported otherwise.
+ */
+function refine<TValue, TRefinedValue extends TValue>(decoder: Decoder<TValue>, predicate: (value: TValue) => value is TRefinedValue, description: string): Decoder<TRefinedValue>
+function refine<TValue>(decoder: Decoder<TValue>, predicate: (value: TValue) => boolean, description: string): Decoder<TValue>
+function refine<TValue>(decoder: Decoder<TValue>, predicate: (value: TValue) => boolean, description: string) {
+  assert(decoder instanceof Decoder)
+  assert(typeof predicate === 'function')
+  assert(typeof description === 'string')
+  return Decoder.make(description, (value) => {
+    return decoder.validate(value).andThen((value) => {
+      const isSatified = predicate(value)
+      assert(typeof isSatified === 'boolean')
+      return isSatified ?
+        valid(value) :
+        invalid(makeIssue(description, value))
+    })
+  })
+}
+
+/**
+ * Creates and returns a {@link Decoder} that decodes a value with the first {@link Decoder} in {@link decoders} that accepts it.
+ *
+ * If none accepts it, a single issue is reported, which lists the descriptions of every {@link Decoder} as expected.
+ *
+ * @param decoders The {@link Decoder}s to try, in order.
+ */
+function union<const TDecoders extends readonly Decoder<unknown>[]>(...decoders: TDecoders): Decoder<DecoderValueOf<TDecoders[number]>> {
+  assert(decoders.length > 0)
+  for (const decoder of decoders) {
+    assert(decoder instanceof Decoder)
+  }
+  const expected = decoders.map((decoder) => decoder.description).join(' | ')
+  return Decoder.make(expected, (value) => {
+    for (const decoder of decoders) {
+      const validation = decoder.validate(value)
+      if (validation.isValid()) {
+        return validation as Validation<DecoderValueOf<TDecoders[number]>, DecodeIssue>
+      }
+    }
+    return invalid(makeIssue(expected, value))
+  })
+}
+
+export {
+  type Decoder as default,
+  array,
+  booleanDecoder as boolean,
+  type DecoderValueOf,
+  literal,
+  numberDecoder as number,
+  object,
+  optional,
+  record,
+  refine,
+  stringDecoder as string,
+  union,
+  unknownDecoder as unknown,
+}
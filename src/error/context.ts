@@ -0,0 +1,57 @@
+/*
+ *******************************************************************************
+ * Copyright © 2024-present Jonathan Barronville <jonathanmarvens@proton.me>   *
+ *                                                                             *
+ * Licensed under the Apache License, Version 2.0 (the "License"); you may not *
+ * use this file except in compliance with the License.                        *
+ * You may obtain a copy of the License at                                     *
+ *                                                                             *
+ *     http://www.apache.org/licenses/LICENSE-2.0                              *
+ *                                                                             *
+ * Unless required by applicable law or agreed to in writing, software         *
+ * distributed under the License is distributed on an "AS IS" BASIS, WITHOUT   *
+ * WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.            *
+ * See the License for the specific language governing permissions and         *
+ * limitations under the License.                                              *
+ *******************************************************************************
+ */
+
+import { customSymbol as customNodeJsUtilInspectSymbol } from '../utilities/node-js-util-inspect'
+import renderErrorChain from '../utilities/render-error-chain'
+
+class ContextError extends Error {
+  public constructor(message: string, cause: unknown) {
+    super(message, { cause })
+
+    this.name = 'ContextError'
+  }
+
+  #findRootError(): Error {
+    const seen = new Set<unknown>()
+    let rootError: Error = this
+    let current: unknown = this
+    while ((current instanceof Error) && !seen.has(current)) {
+      seen.add(current)
+      rootError = current
+      current = Object.hasOwn(current, 'cause') ?
+        current.cause :
+        undefined
+    }
+    return rootError
+  }
+
+  public override toString() {
+    return `${this.name}: ${renderErrorChain(this)}`
+  }
+
+  public [customNodeJsUtilInspectSymbol]() {
+    const frames = (this.#findRootError().stack ?? '')
+      .split('\n')
+      .filter((line) => /^\s+at /.test(line))
+    return (frames.length > 0) ?
+      `${this.toString()}\n\nStack backtrace:\n${frames.join('\n')}` :
+      this.toString()
+  }
+}
+
+export { ContextError as default }
@@ -0,0 +1,42 @@
+/*
+ *******************************************************************************
+ * Copyright © 2024-present Jonathan Barronville <jonathanmarvens@proton.me>   *
+ *                                                                             *
+ * Licensed under the Apache License, Version 2.0 (the "License"); you may not *
+ * use this file except in compliance with the License.                        *
+ * You may obtain a copy of the License at                                     *
+ *                                                                             *
+ *     http://www.apache.org/licenses/LICENSE-2.0                              *
+ *                                                                             *
+ * Unless required by applicable law or agreed to in writing, software         *
+ * distributed under the License is distributed on an "AS IS" BASIS, WITHOUT   *
+ * WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.            *
+ * See the License for the specific language governing permissions and         *
+ * limitations under the License.                                              *
+ *******************************************************************************
+ */
+
+/**
+ * A single problem found while decoding a value, with the location of the offending value.
+ */
+type DecodeIssue = {
+  readonly actual: string,
+  readonly expected: string,
+  readonly path: string,
+}
+
+class DecodeError extends Error {
+  public readonly issues: readonly DecodeIssue[]
+
+  public constructor(message: string, issues: readonly DecodeIssue[]) {
+    super(message)
+
+    this.name = 'DecodeError'
+    this.issues = issues
+  }
+}
+
+export {
+  DecodeError as default,
+  type DecodeIssue,
+}
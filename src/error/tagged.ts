@@ -0,0 +1,65 @@
+/*
+ *******************************************************************************
+ * Copyright © 2024-present Jonathan Barronville <jonathanmarvens@proton.me>   *
+ *                                                                             *
+ * Licensed under the Apache License, Version 2.0 (the "License"); you may not *
+ * use this file except in compliance with the License.                        *
+ * You may obtain a copy of the License at                                     *
+ *                                                                             *
+ *     http://www.apache.org/licenses/LICENSE-2.0                              *
+ *                                                                             *
+ * Unless required by applicable law or agreed to in writing, software         *
+ * distributed under the License is distributed on an "AS IS" BASIS, WITHOUT   *
+ * WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.            *
+ * See the License for the specific language governing permissions and         *
+ * limitations under the License.                                              *
+ *******************************************************************************
+ */
+
+/**
+ * The union of the `_tag` properties of the tagged errors in {@link TError}.
+ */
+type ErrorTagOf<TError> =
+  TError extends { readonly _tag: infer TTag extends string } ?
+    TTag :
+    never
+
+/**
+ * The errors in {@link TError} whose `_tag` property is not one of {@link TTag}.
+ */
+type ExcludeTagged<TError, TTag extends string> =
+  Exclude<TError, { readonly _tag: TTag }>
+
+/**
+ * The errors in {@link TError} whose `_tag` property is one of {@link TTag}.
+ */
+type ExtractTagged<TError, TTag extends string> =
+  TError & { readonly _tag: TTag }
+
+/**
+ * Creates and returns a base class for errors with the provided literal {@link tag} as their `_tag` property, which `Result#catchTag()` and `Result#catchTags()` use to tell them apart.
+ *
+ * ```typescript
+ * class NotFoundError extends TaggedError('NotFound') {}
+ * ```
+ *
+ * @param tag The tag of the errors created by subclasses of the returned class.
+ */
+function TaggedError<const TTag extends string>(tag: TTag) {
+  return class extends Error {
+    public readonly _tag: TTag = tag
+
+    public constructor(message?: string, options?: ErrorOptions) {
+      super(message, options)
+
+      this.name = new.target.name || tag
+    }
+  }
+}
+
+export {
+  TaggedError as default,
+  type ErrorTagOf,
+  type ExcludeTagged,
+  type ExtractTagged,
+}
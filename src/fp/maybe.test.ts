@@ -0,0 +1,115 @@
+/*
+ *******************************************************************************
+ * Copyright © 2024-present Jonathan Barronville <jonathanmarvens@proton.me>   *
+ *                                                                             *
+ * Licensed under the Apache License, Version 2.0 (the "License"); you may not *
+ * use this file except in compliance with the License.                        *
+ * You may obtain a copy of the License at                                     *
+ *                                                                             *
+ *     http://www.apache.org/licenses/LICENSE-2.0                              *
+ *                                                                             *
+ * Unless required by applicable law or agreed to in writing, software         *
+ * distributed under the License is distributed on an "AS IS" BASIS, WITHOUT   *
+ * WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.            *
+ * See the License for the specific language governing permissions and         *
+ * limitations under the License.                                              *
+ *******************************************************************************
+ */
+
+import { and } from './maybe'
+import { andThen } from './maybe'
+import { contains } from './maybe'
+import { expect } from 'chai'
+import { filter } from './maybe'
+import { flatten } from './maybe'
+import { getOrElse } from './maybe'
+import { getSuccessOr } from './maybe'
+import { inspect } from './maybe'
+import { map } from './maybe'
+import { mapOr } from './maybe'
+import { mapOrElse } from './maybe'
+import { match } from './maybe'
+import { nothing } from '../maybe'
+import { or } from './maybe'
+import { orElse } from './maybe'
+import { pipe } from './pipe'
+import { something } from '../maybe'
+import { spy } from 'sinon'
+import { test } from 'mocha'
+import { unwrapOr } from './maybe'
+import { xor } from './maybe'
+import { zip } from './maybe'
+import { zipWith } from './maybe'
+
+test('`maybe.and()`: Applies `Maybe#and()` with `other` to its argument', async () => {
+  const other = something('foo')
+  expect(pipe(something(42), and(other))).to.equal(other)
+})
+
+test('`maybe.andThen()`: Applies `Maybe#andThen()` with `f` to its argument', async () => {
+  expect(pipe(something(42), andThen((value) => something(value * 2))).unwrap()).to.equal(84)
+})
+
+test('`maybe.contains()`: Applies `Maybe#contains()` with `value` to its argument', async () => {
+  expect(pipe(something([1, 2]), contains([1, 2]))).to.be.true
+})
+
+test('`maybe.filter()`: Applies `Maybe#filter()` with `predicate` to its argument', async () => {
+  expect(pipe(something(-42), filter((value) => value > 0))).to.equal(nothing())
+})
+
+test('`maybe.flatten()`: Applies `Maybe#flatten()` to its argument', async () => {
+  const value = something(42)
+  expect(pipe(something(value), flatten)).to.equal(value)
+})
+
+test('`maybe.getOrElse()`: Applies `Maybe#unwrapOrElse()` with `f` to its argument', async () => {
+  expect(pipe(nothing<number>(), getOrElse(() => 0))).to.equal(0)
+  expect(pipe(something(42), getOrElse(() => 0))).to.equal(42)
+})
+
+test('`maybe.getSuccessOr()`: Applies `Maybe#getSuccessOr()` with `error` to its argument', async () => {
+  expect(pipe(nothing<number>(), getSuccessOr('Test error')).unwrapFailure()).to.equal('Test error')
+})
+
+test('`maybe.inspect()`: Applies `Maybe#inspect()` with `f` to its argument', async () => {
+  const spy0 = spy()
+  pipe(something(42), inspect(spy0))
+  expect(spy0.calledOnceWithExactly(42)).to.be.true
+})
+
+test('`maybe.map()`: Applies `Maybe#map()` with `f` to its argument', async () => {
+  expect(pipe(something(42), map((value) => value * 2), map(String)).unwrap()).to.equal('84')
+})
+
+test('`maybe.mapOr()` and `maybe.mapOrElse()`: Apply `Maybe#mapOr()` and `Maybe#mapOrElse()` to their argument', async () => {
+  expect(pipe(nothing<number>(), mapOr(0, (value) => value * 2))).to.equal(0)
+  expect(pipe(something(42), mapOrElse(() => 0, (value) => value * 2))).to.equal(84)
+})
+
+test('`maybe.match()`: Applies `Maybe#match()` with `cases` to its argument', async () => {
+  const f = match({
+    nothing: () => 'Nothing',
+    something: (value: number) => `Something: ${value}`,
+  })
+  expect(pipe(something(42), f)).to.equal('Something: 42')
+  expect(pipe(nothing<number>(), f)).to.equal('Nothing')
+})
+
+test('`maybe.or()` and `maybe.orElse()`: Apply `Maybe#or()` and `Maybe#orElse()` to their argument', async () => {
+  expect(pipe(nothing<number>(), or(something(42))).unwrap()).to.equal(42)
+  expect(pipe(nothing<number>(), orElse(() => something(42))).unwrap()).to.equal(42)
+})
+
+test('`maybe.unwrapOr()`: Applies `Maybe#unwrapOr()` with `defaultValue` to its argument', async () => {
+  expect(pipe(nothing<number>(), unwrapOr(0))).to.equal(0)
+})
+
+test('`maybe.xor()`: Applies `Maybe#xor()` with `other` to its argument', async () => {
+  expect(pipe(something(42), xor(something(8)))).to.equal(nothing())
+})
+
+test('`maybe.zip()` and `maybe.zipWith()`: Apply `Maybe#zip()` and `Maybe#zipWith()` to their argument', async () => {
+  expect(pipe(something(42), zip(something('foo'))).unwrap()).to.deep.equal([42, 'foo'])
+  expect(pipe(something(42), zipWith(something(8), (value, otherValue: number) => value + otherValue)).unwrap()).to.equal(50)
+})
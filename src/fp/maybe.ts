@@ -0,0 +1,227 @@
+/*
+ *******************************************************************************
+ * Copyright © 2024-present Jonathan Barronville <jonathanmarvens@proton.me>   *
+ *                                                                             *
+ * Licensed under the Apache License, Version 2.0 (the "License"); you may not *
+ * use this file except in compliance with the License.                        *
+ * You may obtain a copy of the License at                                     *
+ *                                                                             *
+ *     http://www.apache.org/licenses/LICENSE-2.0                              *
+ *                                                                             *
+ * Unless required by applicable law or agreed to in writing, software         *
+ * distributed under the License is distributed on an "AS IS" BASIS, WITHOUT   *
+ * WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.            *
+ * See the License for the specific language governing permissions and         *
+ * limitations under the License.                                              *
+ *******************************************************************************
+ */
+
+import assert from '../utilities/assert'
+import { isMaybe } from '../maybe'
+import type Maybe from '../maybe'
+import type Result from '../result'
+
+/**
+ * Returns a function that applies `Maybe#and()` with {@link other} to its argument.
+ *
+ * @param other The {@link Maybe} to return if the argument is a `Something` {@link Maybe}.
+ */
+function and<TOtherValue>(other: Maybe<TOtherValue>) {
+  assert(isMaybe(other))
+  return <TValue>(maybe: Maybe<TValue>) => maybe.and(other)
+}
+
+/**
+ * Returns a function that applies `Maybe#andThen()` with {@link f} to its argument.
+ *
+ * @param f The function to apply to the contained value.
+ */
+function andThen<TValue, TOtherValue>(f: (value: TValue) => Maybe<TOtherValue>) {
+  assert(typeof f === 'function')
+  return (maybe: Maybe<TValue>) => maybe.andThen(f)
+}
+
+/**
+ * Returns a function that applies `Maybe#contains()` with {@link value} to its argument.
+ *
+ * @param value The value to look for.
+ */
+function contains<TValue>(value: TValue) {
+  return (maybe: Maybe<TValue>) => maybe.contains(value)
+}
+
+/**
+ * Returns a function that applies `Maybe#filter()` with {@link predicate} to its argument.
+ *
+ * @param predicate The predicate to apply to the contained value.
+ */
+function filter<TValue>(predicate: (value: TValue) => boolean) {
+  assert(typeof predicate === 'function')
+  return (maybe: Maybe<TValue>) => maybe.filter(predicate)
+}
+
+/**
+ * Applies `Maybe#flatten()` to {@link maybe}.
+ *
+ * @param maybe The {@link Maybe} containing a {@link Maybe} to flatten.
+ */
+function flatten<TValue>(maybe: Maybe<Maybe<TValue>>) {
+  return maybe.flatten()
+}
+
+/**
+ * Returns a function that applies `Maybe#unwrapOrElse()` with {@link f} to its argument.
+ *
+ * @param f The function to call if the argument is a `Nothing` {@link Maybe}.
+ */
+function getOrElse<TValue>(f: () => TValue) {
+  assert(typeof f === 'function')
+  return (maybe: Maybe<TValue>) => maybe.unwrapOrElse(f)
+}
+
+/**
+ * Returns a function that applies `Maybe#getSuccessOr()` with {@link error} to its argument.
+ *
+ * @param error The error to include in the `Failure` {@link Result}.
+ */
+function getSuccessOr<TError extends NonNullable<unknown>>(error: TError) {
+  return <TValue>(maybe: Maybe<TValue>): Result<TValue, TError> => maybe.getSuccessOr(error)
+}
+
+/**
+ * Returns a function that applies `Maybe#inspect()` with {@link f} to its argument.
+ *
+ * @param f The function to apply to the contained value.
+ */
+function inspect<TValue>(f: (value: TValue) => void) {
+  assert(typeof f === 'function')
+  return (maybe: Maybe<TValue>) => maybe.inspect(f)
+}
+
+/**
+ * Returns a function that applies `Maybe#map()` with {@link f} to its argument.
+ *
+ * @param f The function to apply to the contained value.
+ */
+function map<TValue, TNewValue>(f: (value: TValue) => TNewValue) {
+  assert(typeof f === 'function')
+  return (maybe: Maybe<TValue>): Maybe<TNewValue> => maybe.map(f)
+}
+
+/**
+ * Returns a function that applies `Maybe#mapOr()` with {@link defaultValue} and {@link f} to its argument.
+ *
+ * @param defaultValue The value to return if the argument is a `Nothing` {@link Maybe}.
+ * @param f The function to apply to the contained value.
+ */
+function mapOr<TValue, TNewValue>(defaultValue: TNewValue, f: (value: TValue) => TNewValue) {
+  assert(typeof f === 'function')
+  return (maybe: Maybe<TValue>) => maybe.mapOr(defaultValue, f)
+}
+
+/**
+ * Returns a function that applies `Maybe#mapOrElse()` with {@link defaultF} and {@link f} to its argument.
+ *
+ * @param defaultF The function to call if the argument is a `Nothing` {@link Maybe}.
+ * @param f The function to apply to the contained value.
+ */
+function mapOrElse<TValue, TNewValue>(defaultF: () => TNewValue, f: (value: TValue) => TNewValue) {
+  assert(typeof defaultF === 'function')
+  assert(typeof f === 'function')
+  return (maybe: Maybe<TValue>) => maybe.mapOrElse(defaultF, f)
+}
+
+/**
+ * Returns a function that applies `Maybe#match()` with {@link cases} to its argument.
+ *
+ * @param cases The functions to call or apply to the contained value.
+ */
+function match<TValue, TNothingReturn, TSomethingReturn>(cases: { nothing: () => TNothingReturn, something: (value: TValue) => TSomethingReturn }) {
+  assert(typeof cases === 'object')
+  assert(cases !== null)
+  assert(typeof cases.nothing === 'function')
+  assert(typeof cases.something === 'function')
+  return (maybe: Maybe<TValue>) => maybe.match(cases)
+}
+
+/**
+ * Returns a function that applies `Maybe#or()` with {@link other} to its argument.
+ *
+ * @param other The {@link Maybe} to return if the argument is a `Nothing` {@link Maybe}.
+ */
+function or<TValue>(other: Maybe<TValue>) {
+  assert(isMaybe(other))
+  return (maybe: Maybe<TValue>) => maybe.or(other)
+}
+
+/**
+ * Returns a function that applies `Maybe#orElse()` with {@link f} to its argument.
+ *
+ * @param f The function to call if the argument is a `Nothing` {@link Maybe}.
+ */
+function orElse<TValue>(f: () => Maybe<TValue>) {
+  assert(typeof f === 'function')
+  return (maybe: Maybe<TValue>) => maybe.orElse(f)
+}
+
+/**
+ * Returns a function that applies `Maybe#unwrapOr()` with {@link defaultValue} to its argument.
+ *
+ * @param defaultValue The value to return if the argument is a `Nothing` {@link Maybe}.
+ */
+function unwrapOr<TValue>(defaultValue: TValue) {
+  return (maybe: Maybe<TValue>) => maybe.unwrapOr(defaultValue)
+}
+
+/**
+ * Returns a function that applies `Maybe#xor()` with {@link other} to its argument.
+ *
+ * @param other The {@link Maybe} to compare the argument with.
+ */
+function xor<TValue>(other: Maybe<TValue>) {
+  assert(isMaybe(other))
+  return (maybe: Maybe<TValue>) => maybe.xor(other)
+}
+
+/**
+ * Returns a function that applies `Maybe#zip()` with {@link other} to its argument.
+ *
+ * @param other The {@link Maybe} to zip the argument with.
+ */
+function zip<TOtherValue>(other: Maybe<TOtherValue>) {
+  assert(isMaybe(other))
+  return <TValue>(maybe: Maybe<TValue>) => maybe.zip(other)
+}
+
+/**
+ * Returns a function that applies `Maybe#zipWith()` with {@link other} and {@link f} to its argument.
+ *
+ * @param other The {@link Maybe} to zip the argument with.
+ * @param f The function to apply to both contained values.
+ */
+function zipWith<TValue, TOtherValue, TNewValue>(other: Maybe<TOtherValue>, f: (value: TValue, otherValue: TOtherValue) => TNewValue) {
+  assert(isMaybe(other))
+  assert(typeof f === 'function')
+  return (maybe: Maybe<TValue>) => maybe.zipWith(other, f)
+}
+
+export {
+  and,
+  andThen,
+  contains,
+  filter,
+  flatten,
+  getOrElse,
+  getSuccessOr,
+  inspect,
+  map,
+  mapOr,
+  mapOrElse,
+  match,
+  or,
+  orElse,
+  unwrapOr,
+  xor,
+  zip,
+  zipWith,
+}
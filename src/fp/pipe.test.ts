@@ -0,0 +1,39 @@
+/*
+ *******************************************************************************
+ * Copyright © 2024-present Jonathan Barronville <jonathanmarvens@proton.me>   *
+ *                                                                             *
+ * Licensed under the Apache License, Version 2.0 (the "License"); you may not *
+ * use this file except in compliance with the License.                        *
+ * You may obtain a copy of the License at                                     *
+ *                                                                             *
+ *     http://www.apache.org/licenses/LICENSE-2.0                              *
+ *                                                                             *
+ * Unless required by applicable law or agreed to in writing, software         *
+ * distributed under the License is distributed on an "AS IS" BASIS, WITHOUT   *
+ * WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.            *
+ * See the License for the specific language governing permissions and         *
+ * limitations under the License.                                              *
+ *******************************************************************************
+ */
+
+import { expect } from 'chai'
+import { flow } from './pipe'
+import { pipe } from './pipe'
+import { test } from 'mocha'
+
+test('`flow()`: Returns a function that passes its arguments to the first function and each result to the next one', async () => {
+  const f = flow((value0: number, value1: number) => value0 + value1, (value) => value * 2, String)
+  expect(f(20, 1)).to.equal('42')
+})
+
+test('`flow()`: Throws if any argument is not a function', async () => {
+  expect(() => flow((value: number) => value, 42 as unknown as (value: number) => number)).to.throw()
+})
+
+test('`pipe()`: Returns the value if no functions are provided', async () => {
+  expect(pipe(42)).to.equal(42)
+})
+
+test('`pipe()`: Passes the value to the first function and each result to the next one', async () => {
+  expect(pipe(20, (value) => value + 1, (value) => value * 2, String)).to.equal('42')
+})
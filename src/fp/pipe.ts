@@ -0,0 +1,77 @@
+/*
+ *******************************************************************************
+ * Copyright © 2024-present Jonathan Barronville <jonathanmarvens@proton.me>   *
+ *                                                                             *
+ * Licensed under the Apache License, Version 2.0 (the "License"); you may not *
+ * use this file except in compliance with the License.                        *
+ * You may obtain a copy of the License at                                     *
+ *                                                                             *
+ *     http://www.apache.org/licenses/LICENSE-2.0                              *
+ *                                                                             *
+ * Unless required by applicable law or agreed to in writing, software         *
+ * distributed under the License is distributed on an "AS IS" BASIS, WITHOUT   *
+ * WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.            *
+ * See the License for the specific language governing permissions and         *
+ * limitations under the License.                                              *
+ *******************************************************************************
+ */
+
+import assert from '../utilities/assert'
+
+/**
+ * Returns a function that passes its arguments to the first of the provided functions, and then passes each result to the next one, returning the result of the last one.
+ *
+ * `flow(f, g)(...args)` is equivalent to `g(f(...args))`.
+ *
+ * @param fs The functions to compose, from first to last.
+ */
+function flow<TArgs extends unknown[], TB>(ab: (...args: TArgs) => TB): (...args: TArgs) => TB
+function flow<TArgs extends unknown[], TB, TC>(ab: (...args: TArgs) => TB, bc: (b: TB) => TC): (...args: TArgs) => TC
+function flow<TArgs extends unknown[], TB, TC, TD>(ab: (...args: TArgs) => TB, bc: (b: TB) => TC, cd: (c: TC) => TD): (...args: TArgs) => TD
+function flow<TArgs extends unknown[], TB, TC, TD, TE>(ab: (...args: TArgs) => TB, bc: (b: TB) => TC, cd: (c: TC) => TD, de: (d: TD) => TE): (...args: TArgs) => TE
+function flow<TArgs extends unknown[], TB, TC, TD, TE, TF>(ab: (...args: TArgs) => TB, bc: (b: TB) => TC, cd: (c: TC) => TD, de: (d: TD) => TE, ef: (e: TE) => TF): (...args: TArgs) => TF
+function flow<TArgs extends unknown[], TB, TC, TD, TE, TF, TG>(ab: (...args: TArgs) => TB, bc: (b: TB) => TC, cd: (c: TC) => TD, de: (d: TD) => TE, ef: (e: TE) => TF, fg: (f: TF) => TG): (...args: TArgs) => TG
+function flow<TArgs extends unknown[], TB, TC, TD, TE, TF, TG, TH>(ab: (...args: TArgs) => TB, bc: (b: TB) => TC, cd: (c: TC) => TD, de: (d: TD) => TE, ef: (e: TE) => TF, fg: (f: TF) => TG, gh: (g: TG) => TH): (...args: TArgs) => TH
+function flow<TArgs extends unknown[], TB, TC, TD, TE, TF, TG, TH, TI>(ab: (...args: TArgs) => TB, bc: (b: TB) => TC, cd: (c: TC) => TD, de: (d: TD) => TE, ef: (e: TE) => TF, fg: (f: TF) => TG, gh: (g: TG) => TH, hi: (h: TH) => TI): (...args: TArgs) => TI
+function flow<TArgs extends unknown[], TB, TC, TD, TE, TF, TG, TH, TI, TJ>(ab: (...args: TArgs) => TB, bc: (b: TB) => TC, cd: (c: TC) => TD, de: (d: TD) => TE, ef: (e: TE) => TF, fg: (f: TF) => TG, gh: (g: TG) => TH, hi: (h: TH) => TI, ij: (i: TI) => TJ): (...args: TArgs) => TJ
+function flow(...fs: ((...args: unknown[]) => unknown)[]) {
+  assert(fs.length > 0)
+  for (const f of fs) {
+    assert(typeof f === 'function')
+  }
+  const [first, ...rest] = fs as [(...args: unknown[]) => unknown, ...((value: unknown) => unknown)[]]
+  return (...args: unknown[]) => {
+    return rest.reduce((value, f) => f(value), first(...args))
+  }
+}
+
+/**
+ * Passes {@link a} to the first of the provided functions, and then passes each result to the next one, returning the result of the last one.
+ *
+ * `pipe(a, f, g)` is equivalent to `g(f(a))`, but reads from left to right, which makes it a good fit for the data-last functions of `eaux/fp`.
+ *
+ * @param a The value to pass to the first function.
+ * @param fs The functions to apply, from first to last.
+ */
+function pipe<TA>(a: TA): TA
+function pipe<TA, TB>(a: TA, ab: (a: TA) => TB): TB
+function pipe<TA, TB, TC>(a: TA, ab: (a: TA) => TB, bc: (b: TB) => TC): TC
+function pipe<TA, TB, TC, TD>(a: TA, ab: (a: TA) => TB, bc: (b: TB) => TC, cd: (c: TC) => TD): TD
+function pipe<TA, TB, TC, TD, TE>(a: TA, ab: (a: TA) => TB, bc: (b: TB) => TC, cd: (c: TC) => TD, de: (d: TD) => TE): TE
+function pipe<TA, TB, TC, TD, TE, TF>(a: TA, ab: (a: TA) => TB, bc: (b: TB) => TC, cd: (c: TC) => TD, de: (d: TD) => TE, ef: (e: TE) => TF): TF
+function pipe<TA, TB, TC, TD, TE, TF, TG>(a: TA, ab: (a: TA) => TB, bc: (b: TB) => TC, cd: (c: TC) => TD, de: (d: TD) => TE, ef: (e: TE) => TF, fg: (f: TF) => TG): TG
+function pipe<TA, TB, TC, TD, TE, TF, TG, TH>(a: TA, ab: (a: TA) => TB, bc: (b: TB) => TC, cd: (c: TC) => TD, de: (d: TD) => TE, ef: (e: TE) => TF, fg: (f: TF) => TG, gh: (g: TG) => TH): TH
+function pipe<TA, TB, TC, TD, TE, TF, TG, TH, TI>(a: TA, ab: (a: TA) => TB, bc: (b: TB) => TC, cd: (c: TC) => TD, de: (d: TD) => TE, ef: (e: TE) => TF, fg: (f: TF) => TG, gh: (g: TG) => TH, hi: (h: TH) => TI): TI
+function pipe<TA, TB, TC, TD, TE, TF, TG, TH, TI, TJ>(a: TA, ab: (a: TA) => TB, bc: (b: TB) => TC, cd: (c: TC) => TD, de: (d: TD) => TE, ef: (e: TE) => TF, fg: (f: TF) => TG, gh: (g: TG) => TH, hi: (h: TH) => TI, ij: (i: TI) => TJ): TJ
+function pipe<TA, TB, TC, TD, TE, TF, TG, TH, TI, TJ, TK>(a: TA, ab: (a: TA) => TB, bc: (b: TB) => TC, cd: (c: TC) => TD, de: (d: TD) => TE, ef: (e: TE) => TF, fg: (f: TF) => TG, gh: (g: TG) => TH, hi: (h: TH) => TI, ij: (i: TI) => TJ, jk: (j: TJ) => TK): TK
+function pipe(a: unknown, ...fs: ((value: unknown) => unknown)[]) {
+  for (const f of fs) {
+    assert(typeof f === 'function')
+  }
+  return fs.reduce((value, f) => f(value), a)
+}
+
+export {
+  flow,
+  pipe,
+}
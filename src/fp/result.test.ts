@@ -0,0 +1,134 @@
+/*
+ *******************************************************************************
+ * Copyright © 2024-present Jonathan Barronville <jonathanmarvens@proton.me>   *
+ *                                                                             *
+ * Licensed under the Apache License, Version 2.0 (the "License"); you may not *
+ * use this file except in compliance with the License.                        *
+ * You may obtain a copy of the License at                                     *
+ *                                                                             *
+ *     http://www.apache.org/licenses/LICENSE-2.0                              *
+ *                                                                             *
+ * Unless required by applicable law or agreed to in writing, software         *
+ * distributed under the License is distributed on an "AS IS" BASIS, WITHOUT   *
+ * WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.            *
+ * See the License for the specific language governing permissions and         *
+ * limitations under the License.                                              *
+ *******************************************************************************
+ */
+
+import { and } from './result'
+import { andThen } from './result'
+import { context } from './result'
+import ContextError from '../error/context'
+import { ensure } from './result'
+import { expect } from 'chai'
+import { failure } from '../result'
+import { filterOrElse } from './result'
+import { flatten } from './result'
+import { getFailure } from './result'
+import { getOrElse } from './result'
+import { getSuccess } from './result'
+import { inspect } from './result'
+import { inspectFailure } from './result'
+import { map } from './result'
+import { mapFailure } from './result'
+import { mapOr } from './result'
+import { mapOrElse } from './result'
+import { match } from './result'
+import { or } from './result'
+import { orElse } from './result'
+import { pipe } from './pipe'
+import type Result from '../result'
+import { spy } from 'sinon'
+import { success } from '../result'
+import { test } from 'mocha'
+import { unwrapOr } from './result'
+import { withContext } from './result'
+import { zip } from './result'
+
+test('`result.and()`: Applies `Result#and()` with `other` to its argument', async () => {
+  const other = success<string, string>('foo')
+  expect(pipe(success<number, string>(42), and(other))).to.equal(other)
+})
+
+test('`result.andThen()`: Applies `Result#andThen()` with `f` to its argument', async () => {
+  const value = pipe(success<number, string>(42), andThen((value) => success<number, string>(value * 2)))
+  expect(value.unwrap()).to.equal(84)
+})
+
+test('`result.context()`: Applies `Result#context()` with `message` to its argument', async () => {
+  const value = pipe(failure<number, string>('Test error'), context('Doing something'))
+  expect(value.unwrapFailure()).to.be.an.instanceOf(ContextError)
+  expect(value.unwrapFailure().cause).to.equal('Test error')
+})
+
+test('`result.ensure()`: Applies `Result#ensure()` with `predicate` and `error` to its argument', async () => {
+  const value = pipe(success<number, string>(-42), ensure((value) => value > 0, 'Not positive'))
+  expect(value.unwrapFailure()).to.equal('Not positive')
+})
+
+test('`result.filterOrElse()`: Applies `Result#filterOrElse()` with `predicate` and `f` to its argument', async () => {
+  const value = pipe(success<number, string>(-42), filterOrElse((value) => value > 0, (value) => `${value} is not positive`))
+  expect(value.unwrapFailure()).to.equal('-42 is not positive')
+})
+
+test('`result.flatten()`: Applies `Result#flatten()` to its argument', async () => {
+  const value = success<number, string>(42)
+  expect(pipe(success<Result<number, string>, string>(value), flatten)).to.equal(value)
+})
+
+test('`result.getFailure()` and `result.getSuccess()`: Apply `Result#getFailure()` and `Result#getSuccess()` to their argument', async () => {
+  expect(pipe(failure<number, string>('Test error'), getFailure).unwrap()).to.equal('Test error')
+  expect(pipe(success<number, string>(42), getSuccess).unwrap()).to.equal(42)
+})
+
+test('`result.getOrElse()`: Applies `Result#unwrapOrElse()` with `f` to its argument', async () => {
+  expect(pipe(failure<number, string>('Test error'), getOrElse((error) => error.length))).to.equal(10)
+  expect(pipe(success<number, string>(42), getOrElse((error) => error.length))).to.equal(42)
+})
+
+test('`result.inspect()` and `result.inspectFailure()`: Apply `Result#inspect()` and `Result#inspectFailure()` with `f` to their argument', async () => {
+  const spy0 = spy()
+  const spy1 = spy()
+  pipe(success<number, string>(42), inspect(spy0), inspectFailure(spy1))
+  expect(spy0.calledOnceWithExactly(42)).to.be.true
+  expect(spy1.called).to.be.false
+})
+
+test('`result.map()` and `result.mapFailure()`: Apply `Result#map()` and `Result#mapFailure()` with `f` to their argument', async () => {
+  expect(pipe(success<number, string>(42), map((value) => value * 2), mapFailure((error) => error.length)).unwrap()).to.equal(84)
+  expect(pipe(failure<number, string>('Test error'), map((value) => value * 2), mapFailure((error) => error.length)).unwrapFailure()).to.equal(10)
+})
+
+test('`result.mapOr()` and `result.mapOrElse()`: Apply `Result#mapOr()` and `Result#mapOrElse()` to their argument', async () => {
+  expect(pipe(failure<number, string>('Test error'), mapOr(0, (value) => value * 2))).to.equal(0)
+  expect(pipe(failure<number, string>('Test error'), mapOrElse((error) => error.length, (value) => value * 2))).to.equal(10)
+})
+
+test('`result.match()`: Applies `Result#match()` with `cases` to its argument', async () => {
+  const f = match({
+    failure: (error: string) => `Failure: ${error}`,
+    success: (value: number) => `Success: ${value}`,
+  })
+  expect(pipe(success<number, string>(42), f)).to.equal('Success: 42')
+  expect(pipe(failure<number, string>('Test error'), f)).to.equal('Failure: Test error')
+})
+
+test('`result.or()` and `result.orElse()`: Apply `Result#or()` and `Result#orElse()` to their argument', async () => {
+  expect(pipe(failure<number, string>('Test error'), or(success<number, never>(42))).unwrap()).to.equal(42)
+  expect(pipe(failure<number, string>('Test error'), orElse((error) => success<number, never>(error.length))).unwrap()).to.equal(10)
+})
+
+test('`result.unwrapOr()`: Applies `Result#unwrapOr()` with `defaultValue` to its argument', async () => {
+  expect(pipe(failure<number, string>('Test error'), unwrapOr(0))).to.equal(0)
+})
+
+test('`result.withContext()`: Applies `Result#withContext()` with `f` to its argument', async () => {
+  const value = pipe(failure<number, string>('Test error'), withContext((error) => `Handling ${error}`))
+  expect(value.unwrapFailure().message).to.equal('Handling Test error')
+})
+
+test('`result.zip()`: Applies `Result#zip()` with `other` to its argument', async () => {
+  const value = pipe(success<number, string>(42), zip(success<string, string>('foo')))
+  expect(value.unwrap()).to.deep.equal([42, 'foo'])
+})
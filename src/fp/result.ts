@@ -0,0 +1,264 @@
+/*
+ *******************************************************************************
+ * Copyright © 2024-present Jonathan Barronville <jonathanmarvens@proton.me>   *
+ *                                                                             *
+ * Licensed under the Apache License, Version 2.0 (the "License"); you may not *
+ * use this file except in compliance with the License.                        *
+ * You may obtain a copy of the License at                                     *
+ *                                                                             *
+ *     http://www.apache.org/licenses/LICENSE-2.0                              *
+ *                                                                             *
+ * Unless required by applicable law or agreed to in writing, software         *
+ * distributed under the License is distributed on an "AS IS" BASIS, WITHOUT   *
+ * WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.            *
+ * See the License for the specific language governing permissions and         *
+ * limitations under the License.                                              *
+ *******************************************************************************
+ */
+
+import assert from '../utilities/assert'
+import type ContextError from '../error/context'
+import { isResult } from '../result'
+import type Maybe from '../maybe'
+import type Result from '../result'
+
+/**
+ * Returns a function that applies `Result#and()` with {@link other} to its argument.
+ *
+ * @param other The {@link Result} to return if the argument is a `Success` {@link Result}.
+ */
+function and<TOtherValue, TError extends NonNullable<unknown>>(other: Result<TOtherValue, TError>) {
+  assert(isResult(other))
+  return <TValue>(result: Result<TValue, TError>) => result.and(other)
+}
+
+/**
+ * Returns a function that applies `Result#andThen()` with {@link f} to its argument.
+ *
+ * @param f The function to apply to the contained value.
+ */
+function andThen<TValue, TOtherValue, TOtherError extends NonNullable<unknown>>(f: (value: TValue) => Result<TOtherValue, TOtherError>) {
+  assert(typeof f === 'function')
+  return <TError extends NonNullable<unknown>>(result: Result<TValue, TError>): Result<TOtherValue, TError | TOtherError> => result.andThen(f)
+}
+
+/**
+ * Returns a function that applies `Result#context()` with {@link message} to its argument.
+ *
+ * @param message The message describing what was being done when the contained error occurred.
+ */
+function context(message: string) {
+  assert(typeof message === 'string')
+  return <TValue, TError extends NonNullable<unknown>>(result: Result<TValue, TError>): Result<TValue, ContextError> => result.context(message)
+}
+
+/**
+ * Returns a function that applies `Result#ensure()` with {@link predicate} and {@link error} to its argument.
+ *
+ * @param predicate The predicate to apply to the contained value.
+ * @param error The error to contain if the contained value does not satisfy {@link predicate}.
+ */
+function ensure<TValue, TOtherError extends NonNullable<unknown>>(predicate: (value: TValue) => boolean, error: TOtherError) {
+  assert(typeof predicate === 'function')
+  assert(typeof error !== 'undefined')
+  assert(error !== null)
+  return <TError extends NonNullable<unknown>>(result: Result<TValue, TError>): Result<TValue, TError | TOtherError> => result.ensure(predicate, error)
+}
+
+/**
+ * Returns a function that applies `Result#filterOrElse()` with {@link predicate} and {@link f} to its argument.
+ *
+ * @param predicate The predicate to apply to the contained value.
+ * @param f The function that returns the error to contain if the contained value does not satisfy {@link predicate}.
+ */
+function filterOrElse<TValue, TOtherError extends NonNullable<unknown>>(predicate: (value: TValue) => boolean, f: (value: TValue) => TOtherError) {
+  assert(typeof predicate === 'function')
+  assert(typeof f === 'function')
+  return <TError extends NonNullable<unknown>>(result: Result<TValue, TError>): Result<TValue, TError | TOtherError> => result.filterOrElse(predicate, f)
+}
+
+/**
+ * Applies `Result#flatten()` to {@link result}.
+ *
+ * @param result The {@link Result} containing a {@link Result} to flatten.
+ */
+function flatten<TValue, TInnerError extends NonNullable<unknown>, TError extends NonNullable<unknown>>(result: Result<Result<TValue, TInnerError>, TError>) {
+  return result.flatten()
+}
+
+/**
+ * Applies `Result#getFailure()` to {@link result}.
+ *
+ * @param result The {@link Result} to convert.
+ */
+function getFailure<TValue, TError extends NonNullable<unknown>>(result: Result<TValue, TError>): Maybe<TError> {
+  return result.getFailure()
+}
+
+/**
+ * Returns a function that applies `Result#unwrapOrElse()` with {@link f} to its argument.
+ *
+ * @param f The function to apply to the contained error.
+ */
+function getOrElse<TValue, TError extends NonNullable<unknown>>(f: (error: TError) => TValue) {
+  assert(typeof f === 'function')
+  return (result: Result<TValue, TError>) => result.unwrapOrElse(f)
+}
+
+/**
+ * Applies `Result#getSuccess()` to {@link result}.
+ *
+ * @param result The {@link Result} to convert.
+ */
+function getSuccess<TValue, TError extends NonNullable<unknown>>(result: Result<TValue, TError>): Maybe<TValue> {
+  return result.getSuccess()
+}
+
+/**
+ * Returns a function that applies `Result#inspect()` with {@link f} to its argument.
+ *
+ * @param f The function to apply to the contained value.
+ */
+function inspect<TValue>(f: (value: TValue) => void) {
+  assert(typeof f === 'function')
+  return <TError extends NonNullable<unknown>>(result: Result<TValue, TError>): Result<TValue, TError> => result.inspect(f)
+}
+
+/**
+ * Returns a function that applies `Result#inspectFailure()` with {@link f} to its argument.
+ *
+ * @param f The function to apply to the contained error.
+ */
+function inspectFailure<TError extends NonNullable<unknown>>(f: (error: TError) => void) {
+  assert(typeof f === 'function')
+  return <TValue>(result: Result<TValue, TError>): Result<TValue, TError> => result.inspectFailure(f)
+}
+
+/**
+ * Returns a function that applies `Result#map()` with {@link f} to its argument.
+ *
+ * @param f The function to apply to the contained value.
+ */
+function map<TValue, TNewValue>(f: (value: TValue) => TNewValue) {
+  assert(typeof f === 'function')
+  return <TError extends NonNullable<unknown>>(result: Result<TValue, TError>): Result<TNewValue, TError> => result.map(f)
+}
+
+/**
+ * Returns a function that applies `Result#mapFailure()` with {@link f} to its argument.
+ *
+ * @param f The function to apply to the contained error.
+ */
+function mapFailure<TError extends NonNullable<unknown>, TNewError extends NonNullable<unknown>>(f: (error: TError) => TNewError) {
+  assert(typeof f === 'function')
+  return <TValue>(result: Result<TValue, TError>): Result<TValue, TNewError> => result.mapFailure(f)
+}
+
+/**
+ * Returns a function that applies `Result#mapOr()` with {@link defaultValue} and {@link f} to its argument.
+ *
+ * @param defaultValue The value to return if the argument is a `Failure` {@link Result}.
+ * @param f The function to apply to the contained value.
+ */
+function mapOr<TValue, TNewValue>(defaultValue: TNewValue, f: (value: TValue) => TNewValue) {
+  assert(typeof f === 'function')
+  return <TError extends NonNullable<unknown>>(result: Result<TValue, TError>) => result.mapOr(defaultValue, f)
+}
+
+/**
+ * Returns a function that applies `Result#mapOrElse()` with {@link defaultF} and {@link f} to its argument.
+ *
+ * @param defaultF The function to apply to the contained error.
+ * @param f The function to apply to the contained value.
+ */
+function mapOrElse<TValue, TError extends NonNullable<unknown>, TNewValue>(defaultF: (error: TError) => TNewValue, f: (value: TValue) => TNewValue) {
+  assert(typeof defaultF === 'function')
+  assert(typeof f === 'function')
+  return (result: Result<TValue, TError>) => result.mapOrElse(defaultF, f)
+}
+
+/**
+ * Returns a function that applies `Result#match()` with {@link cases} to its argument.
+ *
+ * @param cases The functions to apply to the contained value or error.
+ */
+function match<TValue, TError extends NonNullable<unknown>, TFailureReturn, TSuccessReturn>(cases: { failure: (error: TError) => TFailureReturn, success: (value: TValue) => TSuccessReturn }) {
+  assert(typeof cases === 'object')
+  assert(cases !== null)
+  assert(typeof cases.failure === 'function')
+  assert(typeof cases.success === 'function')
+  return (result: Result<TValue, TError>) => result.match(cases)
+}
+
+/**
+ * Returns a function that applies `Result#or()` with {@link other} to its argument.
+ *
+ * @param other The {@link Result} to return if the argument is a `Failure` {@link Result}.
+ */
+function or<TValue, TOtherError extends NonNullable<unknown>>(other: Result<TValue, TOtherError>) {
+  assert(isResult(other))
+  return <TError extends NonNullable<unknown>>(result: Result<TValue, TError>) => result.or(other)
+}
+
+/**
+ * Returns a function that applies `Result#orElse()` with {@link f} to its argument.
+ *
+ * @param f The function to apply to the contained error.
+ */
+function orElse<TValue, TError extends NonNullable<unknown>, TOtherError extends NonNullable<unknown>>(f: (error: TError) => Result<TValue, TOtherError>) {
+  assert(typeof f === 'function')
+  return (result: Result<TValue, TError>) => result.orElse(f)
+}
+
+/**
+ * Returns a function that applies `Result#unwrapOr()` with {@link defaultValue} to its argument.
+ *
+ * @param defaultValue The value to return if the argument is a `Failure` {@link Result}.
+ */
+function unwrapOr<TValue>(defaultValue: TValue) {
+  return <TError extends NonNullable<unknown>>(result: Result<TValue, TError>) => result.unwrapOr(defaultValue)
+}
+
+/**
+ * Returns a function that applies `Result#withContext()` with {@link f} to its argument.
+ *
+ * @param f The function that returns the message describing what was being done when the contained error occurred.
+ */
+function withContext<TError extends NonNullable<unknown>>(f: (error: TError) => string) {
+  assert(typeof f === 'function')
+  return <TValue>(result: Result<TValue, TError>): Result<TValue, ContextError> => result.withContext(f)
+}
+
+/**
+ * Returns a function that applies `Result#zip()` with {@link other} to its argument.
+ *
+ * @param other The {@link Result} to zip the argument with.
+ */
+function zip<TOtherValue, TOtherError extends NonNullable<unknown>>(other: Result<TOtherValue, TOtherError>) {
+  assert(isResult(other))
+  return <TValue, TError extends NonNullable<unknown>>(result: Result<TValue, TError>) => result.zip(other)
+}
+
+export {
+  and,
+  andThen,
+  context,
+  ensure,
+  filterOrElse,
+  flatten,
+  getFailure,
+  getOrElse,
+  getSuccess,
+  inspect,
+  inspectFailure,
+  map,
+  mapFailure,
+  mapOr,
+  mapOrElse,
+  match,
+  or,
+  orElse,
+  unwrapOr,
+  withContext,
+  zip,
+}
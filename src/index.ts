@@ -17,31 +17,203 @@
  */
 
 import $packageJson from '../package.json'
+import { allMaybes } from './maybe-collection'
+import { allResults } from './result-collection'
+import { allValidations } from './validation'
+import { assertFailure } from './result'
+import { assertNothing } from './maybe'
+import { assertSomething } from './maybe'
+import { assertSuccess } from './result'
+import { asyncFailure } from './async-result'
+import type AsyncMaybe from './async-maybe'
+import { asyncMaybe } from './async-maybe'
+import { asyncNothing } from './async-maybe'
+import type AsyncResult from './async-result'
+import { asyncResult } from './async-result'
+import { asyncSomething } from './async-maybe'
+import { asyncSuccess } from './async-result'
+import { collectFailures } from './result-collection'
+import { collectStructFailures } from './result-collection'
+import { compactMaybes } from './maybe-collection'
+import ContextError from './error/context'
+import DecodeError from './error/decode'
+import type { DecodeIssue } from './error/decode'
+import type Decoder from './decoder'
+import * as decoders from './decoder'
+import type { DecoderValueOf } from './decoder'
+import type { ErrorTagOf } from './error/tagged'
+import type { ExcludeTagged } from './error/tagged'
 import ExpectationError from './error/expectation'
+import type { ExtractTagged } from './error/tagged'
 import { failure } from './result'
+import type { Failure } from './result'
+import { filterMap } from './maybe-collection'
+import { firstSomething } from './maybe-collection'
+import { firstSuccess } from './result-collection'
+import type { FpTsEither } from './interop'
+import type { FpTsOption } from './interop'
+import { fromFalsy } from './maybe'
+import { fromFpTsEither } from './interop'
+import { fromFpTsOption } from './interop'
+import { fromIterable } from './maybe'
+import { fromJSON } from './json'
+import { fromNeverthrowResult } from './interop'
+import { fromNullable } from './maybe'
+import { fromPredicate } from './maybe'
+import { fromSerdeOption } from './interop'
+import { fromSerdeResult } from './interop'
+import { fromThrowable } from './result'
+import { genAsyncResult } from './async-result'
+import { genMaybe } from './maybe'
+import { genResult } from './result'
 import ImproperUnwrapError from './error/improper-unwrap'
+import { invalid } from './validation'
+import type { Invalid } from './validation'
+import { isAsyncMaybe } from './async-maybe'
+import { isAsyncResult } from './async-result'
+import { isFpTsEither } from './interop'
+import { isFpTsOption } from './interop'
 import { isMaybe } from './maybe'
+import { isNeverthrowResult } from './interop'
 import { isResult } from './result'
+import { isSerdeOption } from './interop'
+import { isSerdeResult } from './interop'
+import { isValidation } from './validation'
+import JsonDecodingError from './error/json-decoding'
+import { jsonReviver } from './json'
 import type Maybe from './maybe'
+import type { NeverthrowResult } from './interop'
+import type { NonEmptyArray } from './validation'
 import { nothing } from './maybe'
+import type { Nothing } from './maybe'
+import NullishFailureError from './error/nullish-failure'
+import { partitionResults } from './result-collection'
+import renderErrorChain from './utilities/render-error-chain'
 import type Result from './result'
+import type { SerdeOption } from './interop'
+import type { SerdeResult } from './interop'
 import { something } from './maybe'
+import type { Something } from './maybe'
+import { structMaybes } from './maybe-collection'
+import { structResults } from './result-collection'
+import { structValidations } from './validation'
 import { success } from './result'
+import type { Success } from './result'
+import TaggedError from './error/tagged'
+import ThrownValueError from './error/thrown-value'
+import { toFpTsEither } from './interop'
+import { toFpTsOption } from './interop'
+import { toNeverthrowResult } from './interop'
+import { toSerdeOption } from './interop'
+import { toSerdeResult } from './interop'
+import { tryCatch } from './result'
+import { tryCatchAsync } from './async-result'
+import { valid } from './validation'
+import type { Valid } from './validation'
+import { validate } from './validation'
+import type Validation from './validation'
+import { validationFromResult } from './validation'
 
 const VERSION = (() => {
   return $packageJson.version
 })()
 
 export {
+  allMaybes,
+  allResults,
+  allValidations,
+  assertFailure,
+  assertNothing,
+  assertSomething,
+  assertSuccess,
+  asyncFailure,
+  type AsyncMaybe,
+  asyncMaybe,
+  asyncNothing,
+  type AsyncResult,
+  asyncResult,
+  asyncSomething,
+  asyncSuccess,
+  collectFailures,
+  collectStructFailures,
+  compactMaybes,
+  ContextError,
+  DecodeError,
+  type DecodeIssue,
+  type Decoder,
+  decoders,
+  type DecoderValueOf,
+  type ErrorTagOf,
+  type ExcludeTagged,
   ExpectationError,
+  type ExtractTagged,
   failure,
+  type Failure,
+  filterMap,
+  firstSomething,
+  firstSuccess,
+  type FpTsEither,
+  type FpTsOption,
+  fromFalsy,
+  fromFpTsEither,
+  fromFpTsOption,
+  fromIterable,
+  fromJSON,
+  fromNeverthrowResult,
+  fromNullable,
+  fromPredicate,
+  fromSerdeOption,
+  fromSerdeResult,
+  fromThrowable,
+  genAsyncResult,
+  genMaybe,
+  genResult,
   ImproperUnwrapError,
+  invalid,
+  type Invalid,
+  isAsyncMaybe,
+  isAsyncResult,
+  isFpTsEither,
+  isFpTsOption,
   isMaybe,
+  isNeverthrowResult,
   isResult,
+  isSerdeOption,
+  isSerdeResult,
+  isValidation,
+  JsonDecodingError,
+  jsonReviver,
   type Maybe,
+  type NeverthrowResult,
+  type NonEmptyArray,
   nothing,
+  type Nothing,
+  NullishFailureError,
+  partitionResults,
+  renderErrorChain,
   type Result,
+  type SerdeOption,
+  type SerdeResult,
   something,
+  type Something,
+  structMaybes,
+  structResults,
+  structValidations,
   success,
+  type Success,
+  TaggedError,
+  ThrownValueError,
+  toFpTsEither,
+  toFpTsOption,
+  toNeverthrowResult,
+  toSerdeOption,
+  toSerdeResult,
+  tryCatch,
+  tryCatchAsync,
+  valid,
+  type Valid,
+  validate,
+  type Validation,
+  validationFromResult,
   VERSION,
 }
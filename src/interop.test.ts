@@ -0,0 +1,157 @@
+/*
+ *******************************************************************************
+ * Copyright © 2024-present Jonathan Barronville <jonathanmarvens@proton.me>   *
+ *                                                                             *
+ * Licensed under the Apache License, Version 2.0 (the "License"); you may not *
+ * use this file except in compliance with the License.                        *
+ * You may obtain a copy of the License at                                     *
+ *                                                                             *
+ *     http://www.apache.org/licenses/LICENSE-2.0                              *
+ *                                                                             *
+ * Unless required by applicable law or agreed to in writing, software         *
+ * distributed under the License is distributed on an "AS IS" BASIS, WITHOUT   *
+ * WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.            *
+ * See the License for the specific language governing permissions and         *
+ * limitations under the License.                                              *
+ *******************************************************************************
+ */
+
+import { expect } from 'chai'
+import { failure } from './result'
+import { fromFpTsEither } from './interop'
+import { fromFpTsOption } from './interop'
+import { fromNeverthrowResult } from './interop'
+import { fromSerdeOption } from './interop'
+import { fromSerdeResult } from './interop'
+import { isFpTsEither } from './interop'
+import { isFpTsOption } from './interop'
+import { isNeverthrowResult } from './interop'
+import { isSerdeOption } from './interop'
+import { isSerdeResult } from './interop'
+import { nothing } from './maybe'
+import NullishFailureError from './error/nullish-failure'
+import { something } from './maybe'
+import { success } from './result'
+import { test } from 'mocha'
+import { toFpTsEither } from './interop'
+import { toFpTsOption } from './interop'
+import { toNeverthrowResult } from './interop'
+import { toSerdeOption } from './interop'
+import { toSerdeResult } from './interop'
+
+test('`fromFpTsEither()`: Converts an fp-ts `Either` to a `Result`', async () => {
+  expect(fromFpTsEither({ _tag: 'Right', right: 42 }).unwrap()).to.equal(42)
+  expect(fromFpTsEither({ _tag: 'Left', left: 'Test error' }).unwrapFailure()).to.equal('Test error')
+})
+
+test('`fromFpTsEither()`: Replaces a `null` `left` with a `NullishFailureError`', async () => {
+  const error = fromFpTsEither({ _tag: 'Left', left: null }).unwrapFailure()
+  expect(error).to.be.instanceOf(NullishFailureError)
+  expect(error.value).to.be.null
+})
+
+test('`fromFpTsOption()`: Converts an fp-ts `Option` to a `Maybe`', async () => {
+  expect(fromFpTsOption({ _tag: 'Some', value: 42 }).unwrap()).to.equal(42)
+  expect(fromFpTsOption({ _tag: 'None' }).isNothing()).to.be.true
+})
+
+test('`fromNeverthrowResult()`: Converts a neverthrow `Result` to a `Result`', async () => {
+  const ok = { isErr: () => false, isOk: () => true, value: 42 }
+  expect(fromNeverthrowResult(ok).unwrap()).to.equal(42)
+  const err = { error: 'Test error', isErr: () => true, isOk: () => false }
+  expect(fromNeverthrowResult(err).unwrapFailure()).to.equal('Test error')
+})
+
+test('`fromNeverthrowResult()`: Replaces an `undefined` `error` with a `NullishFailureError`', async () => {
+  const err = { error: undefined, isErr: () => true, isOk: () => false }
+  const error = fromNeverthrowResult(err).unwrapFailure()
+  expect(error).to.be.instanceOf(NullishFailureError)
+  expect(error.value).to.be.undefined
+})
+
+test('`fromSerdeOption()`: Converts a serde-serialized Rust `Option` to a `Maybe`', async () => {
+  expect(fromSerdeOption({ Some: 42 }).unwrap()).to.equal(42)
+  expect(fromSerdeOption('None').isNothing()).to.be.true
+})
+
+test('`fromSerdeOption()`: Converts `{ Some: null }` to a `Something` `Maybe` containing `null`', async () => {
+  const maybe = fromSerdeOption({ Some: null })
+  expect(maybe.isSomething()).to.be.true
+  expect(maybe.unwrap()).to.be.null
+})
+
+test('`fromSerdeResult()`: Converts a serde-serialized Rust `Result` to a `Result`', async () => {
+  expect(fromSerdeResult({ Ok: 42 }).unwrap()).to.equal(42)
+  expect(fromSerdeResult({ Err: 'Test error' }).unwrapFailure()).to.equal('Test error')
+})
+
+test('`fromSerdeResult()`: Replaces a `null` `Err` with a `NullishFailureError`', async () => {
+  const error = fromSerdeResult({ Err: null }).unwrapFailure()
+  expect(error).to.be.instanceOf(NullishFailureError)
+  expect(error.value).to.be.null
+})
+
+test('`isFpTsEither()`: Checks if the provided `value` has the shape of an fp-ts `Either`', async () => {
+  expect(isFpTsEither({ _tag: 'Right', right: 42 })).to.be.true
+  expect(isFpTsEither({ _tag: 'Left', left: 'Test error' })).to.be.true
+  expect(isFpTsEither({ _tag: 'Right', left: 42 })).to.be.false
+  expect(isFpTsEither(success(42))).to.be.false
+})
+
+test('`isFpTsOption()`: Checks if the provided `value` has the shape of an fp-ts `Option`', async () => {
+  expect(isFpTsOption({ _tag: 'Some', value: 42 })).to.be.true
+  expect(isFpTsOption({ _tag: 'None' })).to.be.true
+  expect(isFpTsOption({ _tag: 'None', value: 42 })).to.be.false
+  expect(isFpTsOption(null)).to.be.false
+})
+
+test('`isNeverthrowResult()`: Checks if the provided `value` has the shape of a neverthrow `Result`', async () => {
+  expect(isNeverthrowResult({ isErr: () => false, isOk: () => true, value: 42 })).to.be.true
+  expect(isNeverthrowResult({ error: 'Test error', isErr: () => true, isOk: () => false })).to.be.true
+  expect(isNeverthrowResult({ isErr: () => true, isOk: () => false, value: 42 })).to.be.false
+  expect(isNeverthrowResult({ value: 42 })).to.be.false
+})
+
+test('`isSerdeOption()`: Checks if the provided `value` has the shape of a serde-serialized Rust `Option`', async () => {
+  expect(isSerdeOption({ Some: 42 })).to.be.true
+  expect(isSerdeOption('None')).to.be.true
+  expect(isSerdeOption('Some')).to.be.false
+  expect(isSerdeOption({ Some: 42, None: null })).to.be.false
+})
+
+test('`isSerdeResult()`: Checks if the provided `value` has the shape of a serde-serialized Rust `Result`', async () => {
+  expect(isSerdeResult({ Ok: 42 })).to.be.true
+  expect(isSerdeResult({ Err: 'Test error' })).to.be.true
+  expect(isSerdeResult({ Ok: 42, Err: 'Test error' })).to.be.false
+  expect(isSerdeResult(42)).to.be.false
+})
+
+test('`toFpTsEither()`: Converts a `Result` to the shape of an fp-ts `Either`', async () => {
+  expect(toFpTsEither(success(42))).to.deep.equal({ _tag: 'Right', right: 42 })
+  expect(toFpTsEither(failure('Test error'))).to.deep.equal({ _tag: 'Left', left: 'Test error' })
+})
+
+test('`toFpTsOption()`: Converts a `Maybe` to the shape of an fp-ts `Option`', async () => {
+  expect(toFpTsOption(something(42))).to.deep.equal({ _tag: 'Some', value: 42 })
+  expect(toFpTsOption(nothing())).to.deep.equal({ _tag: 'None' })
+})
+
+test('`toNeverthrowResult()`: Converts a `Result` to the shape of a neverthrow `Result`', async () => {
+  const ok = toNeverthrowResult(success(42))
+  expect(ok.isOk()).to.be.true
+  expect(ok).to.have.property('value', 42)
+  const err = toNeverthrowResult(failure('Test error'))
+  expect(err.isErr()).to.be.true
+  expect(err).to.have.property('error', 'Test error')
+  expect(fromNeverthrowResult(err).unwrapFailure()).to.equal('Test error')
+})
+
+test('`toSerdeOption()`: Converts a `Maybe` to the shape of a serde-serialized Rust `Option`', async () => {
+  expect(toSerdeOption(something(42))).to.deep.equal({ Some: 42 })
+  expect(toSerdeOption(nothing())).to.equal('None')
+})
+
+test('`toSerdeResult()`: Converts a `Result` to the shape of a serde-serialized Rust `Result`', async () => {
+  expect(toSerdeResult(success(42))).to.deep.equal({ Ok: 42 })
+  expect(toSerdeResult(failure('Test error'))).to.deep.equal({ Err: 'Test error' })
+})
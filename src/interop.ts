@@ -0,0 +1,337 @@
+/*
+ *******************************************************************************
+ * Copyright © 2024-present Jonathan Barronville <jonathanmarvens@proton.me>   *
+ *                                                                             *
+ * Licensed under the Apache License, Version 2.0 (the "License"); you may not *
+ * use this file except in compliance with the License.                        *
+ * You may obtain a copy of the License at                                     *
+ *                                                                             *
+ *     http://www.apache.org/licenses/LICENSE-2.0                              *
+ *                                                                             *
+ * Unless required by applicable law or agreed to in writing, software         *
+ * distributed under the License is distributed on an "AS IS" BASIS, WITHOUT   *
+ * WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.            *
+ * See the License for the specific language governing permissions and         *
+ * limitations under the License.                                              *
+ *******************************************************************************
+ */
+
+import assert from './utilities/assert'
+import { failure } from './result'
+import { isMaybe } from './maybe'
+import { isResult } from './result'
+import type Maybe from './maybe'
+import { nothing } from './maybe'
+import NullishFailureError from './error/nullish-failure'
+import type Result from './result'
+import { something } from './maybe'
+import { success } from './result'
+
+/**
+ * The shape of an fp-ts `Either`.
+ */
+type FpTsEither<TError, TValue> =
+  | {
+    readonly _tag: 'Left',
+    readonly left: TError,
+  }
+  | {
+    readonly _tag: 'Right',
+    readonly right: TValue,
+  }
+
+/**
+ * The shape of an fp-ts `Option`.
+ */
+type FpTsOption<TValue> =
+  | {
+    readonly _tag: 'None',
+  }
+  | {
+    readonly _tag: 'Some',
+    readonly value: TValue,
+  }
+
+/**
+ * The shape of a neverthrow `Result`, which is either an `Ok` with a `value` or an `Err` with an `error`.
+ */
+type NeverthrowResult<TValue, TError> =
+  | {
+    readonly error: TError,
+    isErr(): boolean,
+    isOk(): boolean,
+  }
+  | {
+    isErr(): boolean,
+    isOk(): boolean,
+    readonly value: TValue,
+  }
+
+/**
+ * The error type of a {@link Result} converted from a shape whose error may be `null` or `undefined`, which is replaced with a {@link NullishFailureError}.
+ */
+type NonNullableError<TError> =
+  [TError] extends [NonNullable<TError>] ?
+    TError :
+    NonNullable<TError> | NullishFailureError
+
+/**
+ * The shape of a Rust `Option` serialized by serde, which externally tags `Some` and represents `None` as a bare string.
+ */
+type SerdeOption<TValue> =
+  | 'None'
+  | {
+    readonly Some: TValue,
+  }
+
+/**
+ * The shape of a Rust `Result` serialized by serde, which externally tags `Ok` and `Err`.
+ */
+type SerdeResult<TValue, TError> =
+  | {
+    readonly Err: TError,
+  }
+  | {
+    readonly Ok: TValue,
+  }
+
+function hasExactKeys(value: unknown, keys: readonly string[]): value is Record<string, unknown> {
+  if ((typeof value !== 'object') || (value === null)) {
+    return false
+  }
+  const ownKeys = Object.keys(value)
+  return (
+    (ownKeys.length === keys.length) &&
+    keys.every((key) => ownKeys.includes(key))
+  )
+}
+
+function toNonNullableError<TError>(error: TError): NonNullableError<TError> {
+  return (((typeof error === 'undefined') || (error === null)) ?
+    new NullishFailureError(`A \`${error}\` error was converted`, error) :
+    error) as NonNullableError<TError>
+}
+
+/**
+ * Checks if the provided {@link value} has the shape of an fp-ts `Either`.
+ *
+ * @param value The value to check.
+ */
+function isFpTsEither(value: unknown): value is FpTsEither<unknown, unknown> {
+  return (
+    (hasExactKeys(value, ['_tag', 'left']) && (value['_tag'] === 'Left')) ||
+    (hasExactKeys(value, ['_tag', 'right']) && (value['_tag'] === 'Right'))
+  )
+}
+
+/**
+ * Checks if the provided {@link value} has the shape of an fp-ts `Option`.
+ *
+ * @param value The value to check.
+ */
+function isFpTsOption(value: unknown): value is FpTsOption<unknown> {
+  return (
+    (hasExactKeys(value, ['_tag']) && (value['_tag'] === 'None')) ||
+    (hasExactKeys(value, ['_tag', 'value']) && (value['_tag'] === 'Some'))
+  )
+}
+
+/**
+ * Checks if the provided {@link value} has the shape of a neverthrow `Result`.
+ *
+ * @param value The value to check.
+ */
+function isNeverthrowResult(value: unknown): value is NeverthrowResult<unknown, unknown> {
+  if ((typeof value !== 'object') || (value === null)) {
+    return false
+  }
+  const { isErr, isOk } = value as { isErr?: unknown, isOk?: unknown }
+  if ((typeof isErr !== 'function') || (typeof isOk !== 'function')) {
+    return false
+  }
+  return (isOk.call(value) === true) ?
+    ('value' in value) :
+    ('error' in value)
+}
+
+/**
+ * Checks if the provided {@link value} has the shape of a Rust `Option` serialized by serde.
+ *
+ * @param value The value to check.
+ */
+function isSerdeOption(value: unknown): value is SerdeOption<unknown> {
+  return (
+    (value === 'None') ||
+    hasExactKeys(value, ['Some'])
+  )
+}
+
+/**
+ * Checks if the provided {@link value} has the shape of a Rust `Result` serialized by serde.
+ *
+ * @param value The value to check.
+ */
+function isSerdeResult(value: unknown): value is SerdeResult<unknown, unknown> {
+  return (
+    hasExactKeys(value, ['Err']) ||
+    hasExactKeys(value, ['Ok'])
+  )
+}
+
+/**
+ * Converts the provided fp-ts `Either` to a {@link Result}, mapping `Right` to `Success` and `Left` to `Failure`.
+ *
+ * A `null` or `undefined` `left` is replaced with a {@link NullishFailureError}, since a `Failure` {@link Result} cannot contain it.
+ *
+ * @param either The fp-ts `Either` to convert.
+ */
+function fromFpTsEither<TError, TValue>(either: FpTsEither<TError, TValue>): Result<TValue, NonNullableError<TError>> {
+  assert(isFpTsEither(either))
+  return (either._tag === 'Right') ?
+    success(either.right) :
+    failure(toNonNullableError(either.left))
+}
+
+/**
+ * Converts the provided fp-ts `Option` to a {@link Maybe}.
+ *
+ * @param option The fp-ts `Option` to convert.
+ */
+function fromFpTsOption<TValue>(option: FpTsOption<TValue>): Maybe<TValue> {
+  assert(isFpTsOption(option))
+  return (option._tag === 'Some') ?
+    something(option.value) :
+    nothing()
+}
+
+/**
+ * Converts the provided neverthrow `Result` to a {@link Result}, mapping `Ok` to `Success` and `Err` to `Failure`.
+ *
+ * A `null` or `undefined` `error` is replaced with a {@link NullishFailureError}, since a `Failure` {@link Result} cannot contain it.
+ *
+ * @param result The neverthrow `Result` to convert.
+ */
+function fromNeverthrowResult<TValue, TError>(result: NeverthrowResult<TValue, TError>): Result<TValue, NonNullableError<TError>> {
+  assert(isNeverthrowResult(result))
+  return result.isOk() ?
+    success((result as { value: TValue }).value) :
+    failure(toNonNullableError((result as { error: TError }).error))
+}
+
+/**
+ * Converts the provided serde-serialized Rust `Option` to a {@link Maybe}.
+ *
+ * Unlike `fromNullable()`, `{ "Some": null }`, which serde produces for a `Some(())` or a nested `Option`, is converted to a `Something` {@link Maybe} containing `null`.
+ *
+ * @param option The serde-serialized Rust `Option` to convert.
+ */
+function fromSerdeOption<TValue>(option: SerdeOption<TValue>): Maybe<TValue> {
+  assert(isSerdeOption(option))
+  return (option === 'None') ?
+    nothing() :
+    something(option.Some)
+}
+
+/**
+ * Converts the provided serde-serialized Rust `Result` to a {@link Result}, mapping `Ok` to `Success` and `Err` to `Failure`.
+ *
+ * A `null` `Err`, which serde produces for a Rust `Result<T, ()>`, is replaced with a {@link NullishFailureError}, since a `Failure` {@link Result} cannot contain it.
+ *
+ * @param result The serde-serialized Rust `Result` to convert.
+ */
+function fromSerdeResult<TValue, TError>(result: SerdeResult<TValue, TError>): Result<TValue, NonNullableError<TError>> {
+  assert(isSerdeResult(result))
+  return ('Ok' in result) ?
+    success(result.Ok) :
+    failure(toNonNullableError(result.Err))
+}
+
+/**
+ * Converts the provided {@link result} to the shape of an fp-ts `Either`, mapping `Success` to `Right` and `Failure` to `Left`.
+ *
+ * @param result The {@link Result} to convert.
+ */
+function toFpTsEither<TValue, TError extends NonNullable<unknown>>(result: Result<TValue, TError>): FpTsEither<TError, TValue> {
+  assert(isResult(result))
+  return result.match<FpTsEither<TError, TValue>, FpTsEither<TError, TValue>>({
+    failure: (error) => ({ _tag: 'Left', left: error }),
+    success: (value) => ({ _tag: 'Right', right: value }),
+  })
+}
+
+/**
+ * Converts the provided {@link maybe} to the shape of an fp-ts `Option`.
+ *
+ * @param maybe The {@link Maybe} to convert.
+ */
+function toFpTsOption<TValue>(maybe: Maybe<TValue>): FpTsOption<TValue> {
+  assert(isMaybe(maybe))
+  return maybe.match<FpTsOption<TValue>, FpTsOption<TValue>>({
+    nothing: () => ({ _tag: 'None' }),
+    something: (value) => ({ _tag: 'Some', value }),
+  })
+}
+
+/**
+ * Converts the provided {@link result} to the shape of a neverthrow `Result`, mapping `Success` to `Ok` and `Failure` to `Err`.
+ *
+ * Only the `value` or `error` property and the `isOk()` and `isErr()` methods are provided.
+ *
+ * @param result The {@link Result} to convert.
+ */
+function toNeverthrowResult<TValue, TError extends NonNullable<unknown>>(result: Result<TValue, TError>): NeverthrowResult<TValue, TError> {
+  assert(isResult(result))
+  return result.match<NeverthrowResult<TValue, TError>, NeverthrowResult<TValue, TError>>({
+    failure: (error) => ({ error, isErr: () => true, isOk: () => false }),
+    success: (value) => ({ isErr: () => false, isOk: () => true, value }),
+  })
+}
+
+/**
+ * Converts the provided {@link maybe} to the shape of a serde-serialized Rust `Option`.
+ *
+ * @param maybe The {@link Maybe} to convert.
+ */
+function toSerdeOption<TValue>(maybe: Maybe<TValue>): SerdeOption<TValue> {
+  assert(isMaybe(maybe))
+  return maybe.match<SerdeOption<TValue>, SerdeOption<TValue>>({
+    nothing: () => 'None',
+    something: (value) => ({ Some: value }),
+  })
+}
+
+/**
+ * Converts the provided {@link result} to the shape of a serde-serialized Rust `Result`, mapping `Success` to `Ok` and `Failure` to `Err`.
+ *
+ * @param result The {@link Result} to convert.
+ */
+function toSerdeResult<TValue, TError extends NonNullable<unknown>>(result: Result<TValue, TError>): SerdeResult<TValue, TError> {
+  assert(isResult(result))
+  return result.match<SerdeResult<TValue, TError>, SerdeResult<TValue, TError>>({
+    failure: (error) => ({ Err: error }),
+    success: (value) => ({ Ok: value }),
+  })
+}
+
+export {
+  type FpTsEither,
+  type FpTsOption,
+  fromFpTsEither,
+  fromFpTsOption,
+  fromNeverthrowResult,
+  fromSerdeOption,
+  fromSerdeResult,
+  isFpTsEither,
+  isFpTsOption,
+  isNeverthrowResult,
+  isSerdeOption,
+  isSerdeResult,
+  type NeverthrowResult,
+  type SerdeOption,
+  type SerdeResult,
+  toFpTsEither,
+  toFpTsOption,
+  toNeverthrowResult,
+  toSerdeOption,
+  toSerdeResult,
+}
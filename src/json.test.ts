@@ -0,0 +1,133 @@
+/*
+ *******************************************************************************
+ * Copyright © 2024-present Jonathan Barronville <jonathanmarvens@proton.me>   *
+ *                                                                             *
+ * Licensed under the Apache License, Version 2.0 (the "License"); you may not *
+ * use this file except in compliance with the License.                        *
+ * You may obtain a copy of the License at                                     *
+ *                                                                             *
+ *     http://www.apache.org/licenses/LICENSE-2.0                              *
+ *                                                                             *
+ * Unless required by applicable law or agreed to in writing, software         *
+ * distributed under the License is distributed on an "AS IS" BASIS, WITHOUT   *
+ * WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.            *
+ * See the License for the specific language governing permissions and         *
+ * limitations under the License.                                              *
+ *******************************************************************************
+ */
+
+import { expect } from 'chai'
+import { failure } from './result'
+import { fromJSON } from './json'
+import { isMaybe } from './maybe'
+import { isResult } from './result'
+import JsonDecodingError from './error/json-decoding'
+import { jsonReviver } from './json'
+import { nothing } from './maybe'
+import type Result from './result'
+import { something } from './maybe'
+import { success } from './result'
+import TaggedError from './error/tagged'
+import { test } from 'mocha'
+import ThrownValueError from './error/thrown-value'
+
+class NotFoundError extends TaggedError('NotFound') {}
+
+class TimeoutError extends TaggedError('Timeout') {}
+
+test('`fromJSON()`: Decodes tagged `Maybe`s and `Result`s at any depth', async () => {
+  const text = JSON.stringify({
+    items: [success(something(42)), failure('Test error'), nothing()],
+    name: 'foo',
+  })
+  const value = fromJSON(JSON.parse(text))
+  expect(value.isSuccess()).to.be.true
+  const object = value.unwrap() as { items: unknown[], name: string }
+  expect(object.name).to.equal('foo')
+  const [item0, item1, item2] = object.items
+  expect(isResult(item0) && item0.isSuccessAnd((value) => isMaybe(value) && (value.unwrap() === 42))).to.be.true
+  expect(isResult(item1) && (item1.unwrapFailure() === 'Test error')).to.be.true
+  expect(isMaybe(item2) && item2.isNothing()).to.be.true
+})
+
+test('`fromJSON()`: If a tagged object is malformed, returns a `Failure` `Result` containing a `JsonDecodingError` with its path', async () => {
+  const values = [
+    [{ $eaux: 'Either', kind: 'left' }, '$'],
+    [{ a: [{ $eaux: 'Result', kind: 'done' }] }, '$.a[0]'],
+    [{ $eaux: 'Result', kind: 'failure', error: null }, '$'],
+    [[0, { $eaux: 'Maybe', kind: 'nothing', value: 42 }], '$[1]'],
+  ] as const
+  for (const [json, path] of values) {
+    const value = fromJSON(json)
+    expect(value.isFailure()).to.be.true
+    const error = value.unwrapFailure()
+    expect(error).to.be.an.instanceOf(JsonDecodingError)
+    expect(error.path).to.equal(path)
+  }
+})
+
+test('`fromJSON()`: Decodes tagged errors with their name, message and cause', async () => {
+  const cause = new TypeError('Test cause')
+  const text = JSON.stringify(failure(new RangeError('Test error', { cause })))
+  expect(JSON.parse(text)).to.deep.equal({
+    $eaux: 'Result',
+    error: {
+      $eaux: 'Error',
+      cause: { $eaux: 'Error', message: 'Test cause', name: 'TypeError' },
+      message: 'Test error',
+      name: 'RangeError',
+    },
+    kind: 'failure',
+  })
+  const value = fromJSON(JSON.parse(text)).unwrap()
+  expect(isResult(value)).to.be.true
+  const error = (value as Result<never, Error>).unwrapFailure()
+  expect(error).to.be.an.instanceOf(Error)
+  expect(`${error}`).to.equal('RangeError: Test error')
+  expect(error.cause).to.be.an.instanceOf(Error)
+  expect(`${error.cause}`).to.equal('TypeError: Test cause')
+})
+
+test('`fromJSON()`: Decodes tagged errors with their other own enumerable properties', async () => {
+  const text = JSON.stringify(failure(new ThrownValueError('Test error', new TypeError('Test value'))))
+  expect(JSON.parse(text).error.properties).to.deep.equal({ value: { $eaux: 'Error', message: 'Test value', name: 'TypeError' } })
+  const error = (fromJSON(JSON.parse(text)).unwrap() as Result<never, ThrownValueError>).unwrapFailure()
+  expect(`${error}`).to.equal('ThrownValueError: Test error')
+  expect(`${error.value}`).to.equal('TypeError: Test value')
+  expect(fromJSON({ $eaux: 'Error', message: 'Test error', name: 'Error', properties: [] }).unwrapFailure().path).to.equal('$')
+})
+
+test('`fromJSON()`: Escapes keys that are not identifiers in the path of a `JsonDecodingError`', async () => {
+  const value = fromJSON({ 'foo bar': { baz: { $eaux: 'Result', kind: 'done' } } })
+  expect(value.unwrapFailure().path).to.equal('$["foo bar"].baz')
+})
+
+test('`jsonReviver()`: Revives tagged `Maybe`s and `Result`s at any depth when passed to `JSON.parse()`', async () => {
+  const text = JSON.stringify([something(failure('Test error')), { foo: success(undefined) }])
+  const [item0, item1] = JSON.parse(text, jsonReviver)
+  expect(isMaybe(item0)).to.be.true
+  expect(item0.unwrap().unwrapFailure()).to.equal('Test error')
+  expect(isResult(item1.foo)).to.be.true
+  expect(item1.foo.unwrap()).to.be.undefined
+})
+
+test('`jsonReviver()`: Revives tagged errors with their name and message', async () => {
+  const text = JSON.stringify(something(new TypeError('Test error')))
+  const value = JSON.parse(text, jsonReviver)
+  expect(isMaybe(value)).to.be.true
+  expect(`${value.unwrap()}`).to.equal('TypeError: Test error')
+})
+
+test('`jsonReviver()`: Revives tagged errors that `Result#catchTag()` still recognizes by their `_tag`', async () => {
+  const text = JSON.stringify(failure(new NotFoundError('Test error')))
+  const value: Result<number, NotFoundError | TimeoutError> = JSON.parse(text, jsonReviver)
+  const error = value.unwrapFailure()
+  expect(error._tag).to.equal('NotFound')
+  expect(`${error}`).to.equal('NotFoundError: Test error')
+  expect(value.catchTag('NotFound', () => success(42)).unwrap()).to.equal(42)
+})
+
+test('`jsonReviver()`: Leaves malformed tagged objects as is', async () => {
+  const value = JSON.parse('{"$eaux":"Maybe","kind":"unknown"}', jsonReviver)
+  expect(value).to.deep.equal({ $eaux: 'Maybe', kind: 'unknown' })
+})
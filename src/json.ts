@@ -0,0 +1,178 @@
+/*
+ *******************************************************************************
+ * Copyright © 2024-present Jonathan Barronville <jonathanmarvens@proton.me>   *
+ *                                                                             *
+ * Licensed under the Apache License, Version 2.0 (the "License"); you may not *
+ * use this file except in compliance with the License.                        *
+ * You may obtain a copy of the License at                                     *
+ *                                                                             *
+ *     http://www.apache.org/licenses/LICENSE-2.0                              *
+ *                                                                             *
+ * Unless required by applicable law or agreed to in writing, software         *
+ * distributed under the License is distributed on an "AS IS" BASIS, WITHOUT   *
+ * WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.            *
+ * See the License for the specific language governing permissions and         *
+ * limitations under the License.                                              *
+ *******************************************************************************
+ */
+
+import appendKey from './utilities/append-key'
+import { failure } from './result'
+import JsonDecodingError from './error/json-decoding'
+import type Maybe from './maybe'
+import { nothing } from './maybe'
+import type Result from './result'
+import { something } from './maybe'
+import { success } from './result'
+
+const ERROR_KEYS = ['$eaux', 'cause', 'message', 'name', 'properties'] as const
+
+const RESULT_KEYS = {
+  failure: ['$eaux', 'error', 'kind'],
+  success: ['$eaux', 'kind', 'value'],
+} as const
+
+const MAYBE_KEYS = {
+  nothing: ['$eaux', 'kind'],
+  something: ['$eaux', 'kind', 'value'],
+} as const
+
+function decodeError(json: Record<string, unknown>, path: string): Result<Error, JsonDecodingError> {
+  for (const key of Object.keys(json)) {
+    if (!(ERROR_KEYS as readonly string[]).includes(key)) {
+      return failure(new JsonDecodingError(`Unexpected property \`${key}\` for a tagged \`Error\` at \`${path}\``, path))
+    }
+  }
+  const message = json['message']
+  const name = json['name']
+  if ((typeof message !== 'string') || (typeof name !== 'string')) {
+    return failure(new JsonDecodingError(`Expected a string \`message\` and \`name\` for a tagged \`Error\` at \`${path}\``, path))
+  }
+  const properties = Object.hasOwn(json, 'properties') ?
+    json['properties'] :
+    {}
+  if (!isPlainObject(properties)) {
+    return failure(new JsonDecodingError(`Expected an object \`properties\` for a tagged \`Error\` at \`${path}\``, path))
+  }
+  const error = Object.hasOwn(json, 'cause') ?
+    new Error(message, { cause: json['cause'] }) :
+    new Error(message)
+  error.name = name
+  for (const [key, property] of Object.entries(properties)) {
+    Object.defineProperty(error, key, { configurable: true, enumerable: true, value: property, writable: true })
+  }
+  return success(error)
+}
+
+function decodeTagged(json: Record<string, unknown>, path: string): Result<Error | Maybe<unknown> | Result<unknown, NonNullable<unknown>>, JsonDecodingError> {
+  const tag = json['$eaux']
+  if (tag === 'Error') {
+    return decodeError(json, path)
+  }
+  const kind = json['kind']
+  let keys: readonly string[]
+  if ((tag === 'Maybe') && ((kind === 'nothing') || (kind === 'something'))) {
+    keys = MAYBE_KEYS[kind]
+  } else if ((tag === 'Result') && ((kind === 'failure') || (kind === 'success'))) {
+    keys = RESULT_KEYS[kind]
+  } else if ((tag === 'Maybe') || (tag === 'Result')) {
+    return failure(new JsonDecodingError(`Expected a valid \`kind\` for a tagged \`${tag}\` at \`${path}\`, got ${JSON.stringify(kind)}`, path))
+  } else {
+    return failure(new JsonDecodingError(`Expected \`$eaux\` to be "Error", "Maybe" or "Result" at \`${path}\`, got ${JSON.stringify(tag)}`, path))
+  }
+  for (const key of Object.keys(json)) {
+    if (!keys.includes(key)) {
+      return failure(new JsonDecodingError(`Unexpected property \`${key}\` for a tagged \`${tag}\` of kind "${kind}" at \`${path}\``, path))
+    }
+  }
+  switch (kind) {
+    case 'failure': {
+      const error = json['error']
+      if ((typeof error === 'undefined') || (error === null)) {
+        return failure(new JsonDecodingError(`Expected a non-null \`error\` for a tagged \`Result\` of kind "failure" at \`${path}\``, path))
+      }
+      return success(failure(error))
+    }
+    case 'nothing':
+      return success(nothing())
+    case 'something':
+      return success(something(json['value']))
+    case 'success':
+      return success(success(json['value']))
+  }
+}
+
+function decodeValue(json: unknown, path: string): Result<unknown, JsonDecodingError> {
+  if (Array.isArray(json)) {
+    const values: unknown[] = []
+    for (const [index, item] of json.entries()) {
+      const value = decodeValue(item, `${path}[${index}]`)
+      if (value.isFailure()) {
+        return value
+      }
+      values.push(value.value)
+    }
+    return success(values)
+  }
+  if (isPlainObject(json)) {
+    const entries: [string, unknown][] = []
+    for (const [key, item] of Object.entries(json)) {
+      const value = decodeValue(item, appendKey(path, key))
+      if (value.isFailure()) {
+        return value
+      }
+      entries.push([key, value.value])
+    }
+    const object = Object.fromEntries(entries)
+    return Object.hasOwn(object, '$eaux') ?
+      decodeTagged(object, path) :
+      success(object)
+  }
+  return success(json)
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if ((typeof value !== 'object') || (value === null)) {
+    return false
+  }
+  const prototype = Object.getPrototypeOf(value)
+  return ((prototype === Object.prototype) || (prototype === null))
+}
+
+/**
+ * Decodes the provided {@link json}, which is a value produced by `JSON.parse()`, replacing every tagged object produced by `Maybe#toJSON()` or `Result#toJSON()` with the {@link Maybe} or {@link Result} it represents, at any depth.
+ *
+ * Tagged errors, which `Maybe#toJSON()` and `Result#toJSON()` produce for contained {@link Error}s, are replaced with an {@link Error} with the same name, message, cause and other own enumerable properties.
+ *
+ * If every tagged object is well-formed, returns a `Success` {@link Result} containing the decoded value.
+ * Otherwise, returns a `Failure` {@link Result} containing a {@link JsonDecodingError} describing the first problem and where it was found.
+ *
+ * @param json The value to decode.
+ */
+function fromJSON(json: unknown): Result<unknown, JsonDecodingError> {
+  return decodeValue(json, '$')
+}
+
+/**
+ * A reviver for `JSON.parse()` that replaces every well-formed tagged object produced by `Maybe#toJSON()` or `Result#toJSON()` with the {@link Maybe} or {@link Result} it represents.
+ * Tagged errors are replaced with an {@link Error} with the same name, message, cause and other own enumerable properties.
+ *
+ * Objects that are not well-formed are left as is; use {@link fromJSON} to detect them.
+ *
+ * @param _key The key of the value being revived.
+ * @param value The value being revived.
+ */
+function jsonReviver(_key: string, value: unknown) {
+  if (!isPlainObject(value) || !Object.hasOwn(value, '$eaux')) {
+    return value
+  }
+  const decoded = decodeTagged(value, '$')
+  return decoded.isSuccess() ?
+    decoded.value :
+    value
+}
+
+export {
+  fromJSON,
+  jsonReviver,
+}
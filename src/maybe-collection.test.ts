@@ -0,0 +1,107 @@
+/*
+ *******************************************************************************
+ * Copyright © 2024-present Jonathan Barronville <jonathanmarvens@proton.me>   *
+ *                                                                             *
+ * Licensed under the Apache License, Version 2.0 (the "License"); you may not *
+ * use this file except in compliance with the License.                        *
+ * You may obtain a copy of the License at                                     *
+ *                                                                             *
+ *     http://www.apache.org/licenses/LICENSE-2.0                              *
+ *                                                                             *
+ * Unless required by applicable law or agreed to in writing, software         *
+ * distributed under the License is distributed on an "AS IS" BASIS, WITHOUT   *
+ * WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.            *
+ * See the License for the specific language governing permissions and         *
+ * limitations under the License.                                              *
+ *******************************************************************************
+ */
+
+import { allMaybes } from './maybe-collection'
+import { compactMaybes } from './maybe-collection'
+import { expect } from 'chai'
+import { filterMap } from './maybe-collection'
+import { firstSomething } from './maybe-collection'
+import type Maybe from './maybe'
+import { nothing } from './maybe'
+import { something } from './maybe'
+import { structMaybes } from './maybe-collection'
+import { test } from 'mocha'
+
+test('`allMaybes()`: If every `Maybe` is a `Something` `Maybe`, returns a `Something` `Maybe` containing an array of the contained values', async () => {
+  const value0: Maybe<[number, string]> = allMaybes([
+    something(42),
+    something('foo'),
+  ])
+  expect(value0.unwrap()).to.deep.equal([42, 'foo'])
+  const value1 = allMaybes(new Set([something(1), something(2)]))
+  expect(value1.unwrap()).to.deep.equal([1, 2])
+})
+
+test('`allMaybes()`: If any `Maybe` is a `Nothing` `Maybe`, returns a `Nothing` `Maybe` and stops iterating', async () => {
+  let count = 0
+  const maybes = (function* () {
+    count += 1
+    yield something(42)
+    count += 1
+    yield nothing<number>()
+    count += 1
+    yield something(84)
+  })()
+  expect(allMaybes(maybes).isNothing()).to.be.true
+  expect(count).to.equal(2)
+})
+
+test('`compactMaybes()`: Returns an array of the contained values of every `Something` `Maybe`', async () => {
+  const values: (number | string)[] = compactMaybes([
+    something(42),
+    nothing<number>(),
+    something('foo'),
+  ])
+  expect(values).to.deep.equal([42, 'foo'])
+})
+
+test('`filterMap()`: Returns an array of the contained values of every `Something` `Maybe` returned by `f`', async () => {
+  const values = filterMap(['1', 'foo', '3'], (value) => {
+    const number = Number(value)
+    return Number.isNaN(number) ?
+      nothing<number>() :
+      something(number)
+  })
+  expect(values).to.deep.equal([1, 3])
+})
+
+test('`firstSomething()`: If any `Maybe` is a `Something` `Maybe`, returns the first one and stops iterating', async () => {
+  const value = something(42)
+  let count = 0
+  const maybes = (function* () {
+    while (true) {
+      count += 1
+      yield (count === 2) ?
+        value :
+        nothing<number>()
+    }
+  })()
+  expect(firstSomething(maybes)).to.equal(value)
+  expect(count).to.equal(2)
+})
+
+test('`firstSomething()`: If every `Maybe` is a `Nothing` `Maybe`, returns a `Nothing` `Maybe`', async () => {
+  expect(firstSomething([nothing(), nothing()]).isNothing()).to.be.true
+  expect(firstSomething([]).isNothing()).to.be.true
+})
+
+test('`structMaybes()`: If every `Maybe` is a `Something` `Maybe`, returns a `Something` `Maybe` containing an object of the contained values', async () => {
+  const value: Maybe<{ host: string, port: number }> = structMaybes({
+    host: something('localhost'),
+    port: something(8080),
+  })
+  expect(value.unwrap()).to.deep.equal({ host: 'localhost', port: 8080 })
+})
+
+test('`structMaybes()`: If any `Maybe` is a `Nothing` `Maybe`, returns a `Nothing` `Maybe`', async () => {
+  const value = structMaybes({
+    host: something('localhost'),
+    port: nothing<number>(),
+  })
+  expect(value.isNothing()).to.be.true
+})
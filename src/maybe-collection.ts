@@ -0,0 +1,148 @@
+/*
+ *******************************************************************************
+ * Copyright © 2024-present Jonathan Barronville <jonathanmarvens@proton.me>   *
+ *                                                                             *
+ * Licensed under the Apache License, Version 2.0 (the "License"); you may not *
+ * use this file except in compliance with the License.                        *
+ * You may obtain a copy of the License at                                     *
+ *                                                                             *
+ *     http://www.apache.org/licenses/LICENSE-2.0                              *
+ *                                                                             *
+ * Unless required by applicable law or agreed to in writing, software         *
+ * distributed under the License is distributed on an "AS IS" BASIS, WITHOUT   *
+ * WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.            *
+ * See the License for the specific language governing permissions and         *
+ * limitations under the License.                                              *
+ *******************************************************************************
+ */
+
+import assert from './utilities/assert'
+import isIterable from './utilities/is-iterable'
+import { isMaybe } from './maybe'
+import type Maybe from './maybe'
+import type { MaybeValueOf } from './maybe'
+import { nothing } from './maybe'
+import { something } from './maybe'
+
+type MaybeRecord =
+  Readonly<Record<string, Maybe<unknown>>>
+
+type MaybeRecordValues<TMaybes extends MaybeRecord> = {
+  -readonly [TKey in keyof TMaybes]: MaybeValueOf<TMaybes[TKey]>
+}
+
+type MaybeValues<TMaybes extends readonly Maybe<unknown>[]> = {
+  -readonly [TKey in keyof TMaybes]: MaybeValueOf<TMaybes[TKey]>
+}
+
+/**
+ * If every {@link Maybe} in {@link maybes} is a `Something` {@link Maybe}, returns a `Something` {@link Maybe} containing an array of the contained values.
+ * Otherwise, returns a `Nothing` {@link Maybe}.
+ *
+ * Iteration stops at the first `Nothing` {@link Maybe}.
+ *
+ * @param maybes The {@link Maybe}s to combine.
+ */
+function allMaybes<const TMaybes extends readonly Maybe<unknown>[]>(maybes: TMaybes): Maybe<MaybeValues<TMaybes>>
+function allMaybes<TValue>(maybes: Iterable<Maybe<TValue>>): Maybe<TValue[]>
+function allMaybes(maybes: Iterable<Maybe<unknown>>) {
+  assert(isIterable(maybes))
+  const values: unknown[] = []
+  for (const maybe of maybes) {
+    assert(isMaybe(maybe))
+    if (maybe.isNothing()) {
+      return nothing()
+    }
+    values.push(maybe.unwrap())
+  }
+  return something(values)
+}
+
+/**
+ * Returns an array of the contained values of every `Something` {@link Maybe} in {@link maybes}, dropping every `Nothing` {@link Maybe}.
+ *
+ * @param maybes The {@link Maybe}s to compact.
+ */
+function compactMaybes<const TMaybes extends readonly Maybe<unknown>[]>(maybes: TMaybes): MaybeValueOf<TMaybes[number]>[]
+function compactMaybes<TValue>(maybes: Iterable<Maybe<TValue>>): TValue[]
+function compactMaybes(maybes: Iterable<Maybe<unknown>>) {
+  assert(isIterable(maybes))
+  const values: unknown[] = []
+  for (const maybe of maybes) {
+    assert(isMaybe(maybe))
+    if (maybe.isSomething()) {
+      values.push(maybe.unwrap())
+    }
+  }
+  return values
+}
+
+/**
+ * Applies {@link f} to every value in {@link values} and returns an array of the contained values of every resulting `Something` {@link Maybe}.
+ *
+ * @param values The values to apply {@link f} to.
+ * @param f The function to apply to every value.
+ */
+function filterMap<TValue, TNewValue>(values: Iterable<TValue>, f: (value: TValue, index: number) => Maybe<TNewValue>): TNewValue[] {
+  assert(isIterable(values))
+  assert(typeof f === 'function')
+  const newValues: TNewValue[] = []
+  let index = 0
+  for (const value of values) {
+    const maybe = f(value, index)
+    assert(isMaybe(maybe))
+    if (maybe.isSomething()) {
+      newValues.push(maybe.unwrap())
+    }
+    index += 1
+  }
+  return newValues
+}
+
+/**
+ * If any {@link Maybe} in {@link maybes} is a `Something` {@link Maybe}, returns the first one.
+ * Otherwise, returns a `Nothing` {@link Maybe}.
+ *
+ * Iteration stops at the first `Something` {@link Maybe}, so {@link maybes} may be a lazy or infinite iterable.
+ *
+ * @param maybes The {@link Maybe}s to search.
+ */
+function firstSomething<const TMaybes extends readonly Maybe<unknown>[]>(maybes: TMaybes): Maybe<MaybeValueOf<TMaybes[number]>>
+function firstSomething<TValue>(maybes: Iterable<Maybe<TValue>>): Maybe<TValue>
+function firstSomething(maybes: Iterable<Maybe<unknown>>) {
+  assert(isIterable(maybes))
+  for (const maybe of maybes) {
+    assert(isMaybe(maybe))
+    if (maybe.isSomething()) {
+      return maybe
+    }
+  }
+  return nothing()
+}
+
+/**
+ * If every {@link Maybe} in {@link maybes} is a `Something` {@link Maybe}, returns a `Something` {@link Maybe} containing an object with the same keys mapped to the contained values.
+ * Otherwise, returns a `Nothing` {@link Maybe}.
+ *
+ * @param maybes The object of {@link Maybe}s to combine.
+ */
+function structMaybes<TMaybes extends MaybeRecord>(maybes: TMaybes): Maybe<MaybeRecordValues<TMaybes>> {
+  assert((typeof maybes === 'object') && (maybes !== null))
+  const values: Record<string, unknown> = {}
+  for (const [key, maybe] of Object.entries(maybes)) {
+    assert(isMaybe(maybe))
+    if (maybe.isNothing()) {
+      return nothing()
+    }
+    values[key] = maybe.unwrap()
+  }
+  return something(values as MaybeRecordValues<TMaybes>)
+}
+
+export {
+  allMaybes,
+  compactMaybes,
+  filterMap,
+  firstSomething,
+  structMaybes,
+}
@@ -16,16 +16,60 @@
  *******************************************************************************
  */
 
+import { assertNothing } from './maybe'
+import { assertSomething } from './maybe'
 import { expect } from 'chai'
 import ExpectationError from './error/expectation'
+import { failure } from './result'
+import { fromFalsy } from './maybe'
+import { fromIterable } from './maybe'
+import { fromNullable } from './maybe'
+import { fromPredicate } from './maybe'
+import { genMaybe } from './maybe'
 import ImproperUnwrapError from './error/improper-unwrap'
 import { isMaybe } from './maybe'
+import type Maybe from './maybe'
 import { nothing } from './maybe'
+import type Result from './result'
 import { something } from './maybe'
 import { spy } from 'sinon'
+import { success } from './result'
 import { suite } from 'mocha'
 import { test } from 'mocha'
 
+test('`assertNothing()`: If the provided `maybe` is a `Nothing` `Maybe`, does not throw', async () => {
+  const value = nothing<number>()
+  assertNothing(value)
+  expect(value.kind).to.equal('nothing')
+})
+
+test('`assertNothing()`: If the provided `maybe` is a `Something` `Maybe`, throws an `ImproperUnwrapError` describing the contained value', async () => {
+  const value = something(42)
+  expect(function () {
+    assertNothing(value)
+  }).to.throw(ImproperUnwrapError, /Expected a `Nothing` value, got Maybe\{[\s\S]*42/)
+})
+
+test('`assertSomething()`: If the provided `maybe` is a `Something` `Maybe`, narrows it', async () => {
+  const value: Maybe<number> = something(42)
+  assertSomething(value)
+  expect(value.value).to.equal(42)
+})
+
+test('`assertSomething()`: If the provided `maybe` is a `Nothing` `Maybe`, throws an `ImproperUnwrapError`', async () => {
+  const value = nothing()
+  expect(function () {
+    assertSomething(value)
+  }).to.throw(ImproperUnwrapError, /Expected a `Something` value, got Maybe\{[\s\S]*Nothing/)
+})
+
+test('`assertSomething()`: If the provided `maybe` is a `Nothing` `Maybe` and `message` is provided, throws an `ExpectationError` with it', async () => {
+  const value = nothing()
+  expect(function () {
+    assertSomething(value, 'Test expectation message')
+  }).to.throw(ExpectationError, /^Test expectation message: Maybe\{/)
+})
+
 test('`isMaybe()`: Checks if the provided `value` is a `Maybe`', async () => {
   const value0 = null
   expect(isMaybe(value0)).to.be.false
@@ -37,6 +81,93 @@ test('`isMaybe()`: Checks if the provided `value` is a `Maybe`', async () => {
   expect(isMaybe(value3)).to.be.true
 })
 
+test('`fromFalsy()`: If the provided `value` is falsy, returns a `Nothing` `Maybe`', async () => {
+  for (const value of [false, 0, 0n, '', null, undefined, Number.NaN]) {
+    expect(fromFalsy(value).isNothing()).to.be.true
+  }
+})
+
+test('`fromFalsy()`: If the provided `value` is truthy, returns a `Something` `Maybe` containing it', async () => {
+  const value: Maybe<string> = fromFalsy<string | ''>('foo')
+  expect(value.unwrap()).to.equal('foo')
+})
+
+test('`fromIterable()`: If the provided `iterable` yields a value, returns a `Something` `Maybe` containing the first one', async () => {
+  expect(fromIterable([1, 2, 3]).unwrap()).to.equal(1)
+  expect(fromIterable(new Set(['foo'])).unwrap()).to.equal('foo')
+})
+
+test('`fromIterable()`: If the provided `iterable` yields no value, returns a `Nothing` `Maybe`', async () => {
+  expect(fromIterable([]).isNothing()).to.be.true
+})
+
+test('`fromIterable()`: Stops iterating after the first value', async () => {
+  const spy0 = spy()
+  function* values() {
+    try {
+      yield 1
+      yield 2
+    } finally {
+      spy0()
+    }
+  }
+  expect(fromIterable(values()).unwrap()).to.equal(1)
+  expect(spy0.calledOnce).to.be.true
+})
+
+test('`fromNullable()`: If the provided `value` is `null` or `undefined`, returns a `Nothing` `Maybe`', async () => {
+  expect(fromNullable(null).isNothing()).to.be.true
+  expect(fromNullable(undefined).isNothing()).to.be.true
+})
+
+test('`fromNullable()`: If the provided `value` is neither `null` nor `undefined`, returns a `Something` `Maybe` containing it', async () => {
+  const value0: Maybe<number> = fromNullable<number | null | undefined>(0)
+  expect(value0.unwrap()).to.equal(0)
+  const value1 = fromNullable('')
+  expect(value1.unwrap()).to.equal('')
+})
+
+test('`fromPredicate()`: If the provided `value` satisfies `predicate`, returns a `Something` `Maybe` containing it', async () => {
+  const value0: number | string = 42
+  const value1: Maybe<number> = fromPredicate(value0 as number | string, (value) => typeof value === 'number')
+  expect(value1.unwrap()).to.equal(42)
+})
+
+test('`fromPredicate()`: If the provided `value` does not satisfy `predicate`, returns a `Nothing` `Maybe`', async () => {
+  const value = fromPredicate(42, (value) => value > 100)
+  expect(value.isNothing()).to.be.true
+})
+
+test('`genMaybe()`: If every bound `Maybe` is a `Something` `Maybe`, returns a `Something` `Maybe` containing the return value of the generator', async () => {
+  const value0 = something(21)
+  const value1 = something('foo')
+  const value2: Maybe<string> = genMaybe(function* (bind) {
+    const number = yield* bind(value0)
+    const string = yield* bind(value1)
+    return `${string}${number * 2}`
+  })
+  expect(value2.isSomething()).to.be.true
+  expect(value2.unwrap()).to.equal('foo42')
+})
+
+test('`genMaybe()`: If a bound `Maybe` is a `Nothing` `Maybe`, returns a `Nothing` `Maybe` and stops the generator', async () => {
+  const spy0 = spy()
+  const spy1 = spy()
+  const value = genMaybe(function* (bind) {
+    try {
+      const number = yield* bind(something(42))
+      yield* bind(nothing<string>())
+      spy0()
+      return number
+    } finally {
+      spy1()
+    }
+  })
+  expect(value.isNothing()).to.be.true
+  expect(spy0.called).to.be.false
+  expect(spy1.calledOnce).to.be.true
+})
+
 test('`nothing()`: Creates and returns a new `Nothing` `Maybe`', async () => {
   const value = nothing()
   expect(value.isNothing()).to.be.true
@@ -78,6 +209,56 @@ suite('`Maybe`', () => {
     expect(value1.unwrap()).to.equal(84)
   })
 
+  test('`Maybe#compare()`: Orders a `Nothing` `Maybe` before a `Something` `Maybe`', async () => {
+    expect(nothing<number>().compare(something(0))).to.equal(-1)
+    expect(something(0).compare(nothing())).to.equal(1)
+    expect(nothing<number>().compare(nothing())).to.equal(0)
+  })
+
+  test('`Maybe#compare()`: Orders two `Something` `Maybe`s by their contained values', async () => {
+    expect(something(1).compare(something(2))).to.equal(-1)
+    expect(something('b').compare(something('a'))).to.equal(1)
+    expect(something([1, 2]).compare(something([1, 2]))).to.equal(0)
+    const values = [something(3), nothing<number>(), something(1), something(2)]
+    expect(values.sort((value, other) => value.compare(other)).map((value) => value.toUndefined())).to.deep.equal([undefined, 1, 2, 3])
+  })
+
+  test('`Maybe#compare()`: Orders two `Something` `Maybe`s with `valueCompare` if provided', async () => {
+    expect(something(1).compare(something(2), (value, otherValue) => otherValue - value)).to.equal(1)
+  })
+
+  test('`Maybe#compare()`: Orders nested `Maybe`s and `Result`s of different variants by their variants', async () => {
+    expect(something(failure('Test error')).compare(something(success(1)))).to.equal(-1)
+    expect(something([nothing()]).compare(something([something(1)]))).to.equal(-1)
+    expect(something(something(1)).compare(something(nothing()))).to.equal(1)
+  })
+
+  test('`Maybe#contains()`: If this is a `Nothing` `Maybe`, returns `false`', async () => {
+    expect(nothing<number>().contains(42)).to.be.false
+  })
+
+  test('`Maybe#contains()`: If this is a `Something` `Maybe`, returns whether the contained value equals `value`', async () => {
+    expect(something({ a: [1, 2] }).contains({ a: [1, 2] })).to.be.true
+    expect(something({ a: [1, 2] }).contains({ a: [1, 3] })).to.be.false
+    expect(something('foo').contains('FOO', (value, otherValue) => value.toLowerCase() === otherValue.toLowerCase())).to.be.true
+  })
+
+  test('`Maybe#equals()`: Returns `true` for two `Nothing` `Maybe`s', async () => {
+    expect(nothing().equals(nothing())).to.be.true
+  })
+
+  test('`Maybe#equals()`: Compares the contained values deeply', async () => {
+    expect(something(1).equals(something(1))).to.be.true
+    expect(something({ a: [1, 2], b: something(new Date(0)) }).equals(something({ a: [1, 2], b: something(new Date(0)) }))).to.be.true
+    expect(something({ a: [1, 2] }).equals(something({ a: [1, 3] }))).to.be.false
+    expect(something(1).equals(nothing())).to.be.false
+  })
+
+  test('`Maybe#equals()`: Compares the contained values with `valueEq` if provided', async () => {
+    const valueEq = (value: string, otherValue: string) => value.toLowerCase() === otherValue.toLowerCase()
+    expect(something('foo').equals(something('FOO'), valueEq)).to.be.true
+  })
+
   test('`Maybe#expect()`: If this is a `Nothing` `Maybe`, throws an `ExpectationError` with the provided `message`', async () => {
     const value = nothing()
     expect(function () {
@@ -109,6 +290,62 @@ suite('`Maybe`', () => {
     expect(value2.isNothing()).to.be.true
   })
 
+  test('`Maybe#flatten()`: If this is a `Nothing` `Maybe`, returns this `Maybe`', async () => {
+    const value = nothing<Maybe<number>>()
+    expect(value.flatten()).to.equal(value)
+  })
+
+  test('`Maybe#flatten()`: If this is a `Something` `Maybe`, returns the contained `Maybe`', async () => {
+    const value = something(42)
+    expect(something(value).flatten()).to.equal(value)
+    expect(something(nothing<number>()).flatten().isNothing()).to.be.true
+  })
+
+  test('`Maybe#getFailureOr()`: If this is a `Nothing` `Maybe`, returns a `Success` `Result` containing `value`', async () => {
+    const value = nothing<Error>().getFailureOr(42)
+    expect(value.unwrap()).to.equal(42)
+  })
+
+  test('`Maybe#getFailureOr()`: If this is a `Something` `Maybe`, returns a `Failure` `Result` containing the contained value', async () => {
+    const error = new Error('Test error')
+    const value = something(error).getFailureOr(42)
+    expect(value.unwrapFailure()).to.equal(error)
+  })
+
+  test('`Maybe#getFailureOr()`: If this is a `Something` `Maybe` containing `null` or `undefined`, throws', async () => {
+    const value = something(null as unknown as string)
+    expect(function () {
+      value.getFailureOr(42)
+    }).to.throw()
+  })
+
+  test('`Maybe#getFailureOr()`: Turns the `Maybe` returned by `Result#getFailure()` back into a `Result`', async () => {
+    const value0 = failure<number, string>('Test error')
+    expect(value0.getFailure().getFailureOr(0).unwrapFailure()).to.equal('Test error')
+    const value1 = success<number, string>(42)
+    expect(value1.getFailure().getFailureOr(42).unwrap()).to.equal(42)
+  })
+
+  test('`Maybe#getFailureOrElse()`: If this is a `Nothing` `Maybe`, returns a `Success` `Result` containing the result of calling `f`', async () => {
+    const value = nothing<Error>().getFailureOrElse(() => 42)
+    expect(value.unwrap()).to.equal(42)
+  })
+
+  test('`Maybe#getFailureOrElse()`: If this is a `Something` `Maybe`, returns a `Failure` `Result` containing the contained value', async () => {
+    const error = new Error('Test error')
+    const spy0 = spy(() => 42)
+    const value = something(error).getFailureOrElse(spy0)
+    expect(value.unwrapFailure()).to.equal(error)
+    expect(spy0.called).to.be.false
+  })
+
+  test('`Maybe#getFailureOrElse()`: If this is a `Something` `Maybe` containing `null` or `undefined`, throws', async () => {
+    const value = something(undefined as unknown as string)
+    expect(function () {
+      value.getFailureOrElse(() => 42)
+    }).to.throw()
+  })
+
   test('`Maybe#getSuccessOr()`: If this is a `Nothing` `Maybe`, returns a `Failure` `Result` containing the provided `error`', async () => {
     const value0 = nothing()
     const error = new Error('Test error')
@@ -125,6 +362,45 @@ suite('`Maybe`', () => {
     expect(value1.unwrap()).to.equal(42)
   })
 
+  test('`Maybe#getSuccessOr()`: Turns the `Maybe` returned by `Result#getSuccess()` back into a `Result`', async () => {
+    const value = success<number, string>(42)
+    expect(value.getSuccess().getSuccessOr('Test error').unwrap()).to.equal(42)
+  })
+
+  test('`Maybe#getSuccessOrElse()`: If this is a `Nothing` `Maybe`, returns a `Failure` `Result` containing the result of calling `f`', async () => {
+    const error = new Error('Test error')
+    const value = nothing<number>().getSuccessOrElse(() => error)
+    expect(value.unwrapFailure()).to.equal(error)
+  })
+
+  test('`Maybe#getSuccessOrElse()`: If this is a `Something` `Maybe`, returns a `Success` `Result` containing the contained value', async () => {
+    const spy0 = spy(() => new Error('Test error'))
+    const value = something(42).getSuccessOrElse(spy0)
+    expect(value.unwrap()).to.equal(42)
+    expect(spy0.called).to.be.false
+  })
+
+  test('`Maybe#hashCode()`: Returns the same hash code for equal `Maybe`s', async () => {
+    expect(something({ a: [1, 2] }).hashCode()).to.equal(something({ a: [1, 2] }).hashCode())
+    expect(nothing().hashCode()).to.equal(nothing().hashCode())
+    expect(something(1).hashCode()).to.not.equal(something(2).hashCode())
+    expect(something(undefined).hashCode()).to.not.equal(nothing().hashCode())
+  })
+
+  test('`Maybe#hashCode()`: Returns the same hash code for contained values that are equal by their own `equals()` method', async () => {
+    class Point {
+      public constructor(public readonly x: number, public readonly y: number, public readonly label: string) { }
+
+      public equals(other: Point) {
+        return (this.x === other.x) && (this.y === other.y)
+      }
+    }
+    const value0 = something(new Point(1, 2, 'foo'))
+    const value1 = something(new Point(1, 2, 'bar'))
+    expect(value0.equals(value1)).to.be.true
+    expect(value0.hashCode()).to.equal(value1.hashCode())
+  })
+
   test('`Maybe#inspect()`: If this is a `Nothing` `Maybe`, returns this `Maybe`', async () => {
     const value = nothing()
     const spy0 = spy()
@@ -173,6 +449,15 @@ suite('`Maybe`', () => {
     expect(value.isSomething()).to.be.true
   })
 
+  test('`Maybe#isSomething()`: Narrows this `Maybe` to a `Something` `Maybe`', async () => {
+    const value: Maybe<number> = something(42)
+    if (value.isSomething()) {
+      expect(value.value).to.equal(42)
+    } else {
+      expect.fail('Expected a `Something` `Maybe`, got a `Nothing` `Maybe`')
+    }
+  })
+
   test('`Maybe#isSomethingAnd()`: If this is a `Nothing` `Maybe`, returns `false`', async () => {
     const value = nothing()
     expect(value.isSomethingAnd((value) => {
@@ -187,6 +472,27 @@ suite('`Maybe`', () => {
     })).to.be.true
   })
 
+  test('`Maybe#iter()`: If this is a `Nothing` `Maybe`, yields nothing', async () => {
+    expect([...nothing().iter()]).to.deep.equal([])
+  })
+
+  test('`Maybe#iter()`: If this is a `Something` `Maybe`, yields the contained value', async () => {
+    expect([...something(42).iter()]).to.deep.equal([42])
+  })
+
+  test('`Maybe#kind`: Is `\'nothing\'` for a `Nothing` `Maybe` and `\'something\'` for a `Something` `Maybe`', async () => {
+    const values: Maybe<number>[] = [nothing(), something(42)]
+    const strings = values.map((value) => {
+      switch (value.kind) {
+        case 'nothing':
+          return 'none'
+        case 'something':
+          return `${value.value}`
+      }
+    })
+    expect(strings).to.deep.equal(['none', '42'])
+  })
+
   test('`Maybe#map()`: If this is a `Nothing` `Maybe`, returns this `Maybe`', async () => {
     const value = nothing()
     const spy0 = spy()
@@ -203,6 +509,48 @@ suite('`Maybe`', () => {
     expect(value1.unwrap()).to.equal(84)
   })
 
+  test('`Maybe#mapOr()`: If this is a `Nothing` `Maybe`, returns `defaultValue`', async () => {
+    const spy0 = spy((value: number) => value * 2)
+    expect(nothing<number>().mapOr(0, spy0)).to.equal(0)
+    expect(spy0.called).to.be.false
+  })
+
+  test('`Maybe#mapOr()`: If this is a `Something` `Maybe`, returns the result of applying `f` to the contained value', async () => {
+    expect(something(42).mapOr(0, (value) => value * 2)).to.equal(84)
+  })
+
+  test('`Maybe#mapOrElse()`: If this is a `Nothing` `Maybe`, returns the result of calling `defaultF`', async () => {
+    expect(nothing<number>().mapOrElse(() => 0, (value) => value * 2)).to.equal(0)
+  })
+
+  test('`Maybe#mapOrElse()`: If this is a `Something` `Maybe`, returns the result of applying `f` to the contained value', async () => {
+    const spy0 = spy(() => 0)
+    expect(something(42).mapOrElse(spy0, (value) => value * 2)).to.equal(84)
+    expect(spy0.called).to.be.false
+  })
+
+  test('`Maybe#match()`: If this is a `Nothing` `Maybe`, returns the result of calling `cases.nothing`', async () => {
+    const value = nothing<number>()
+    const spy0 = spy()
+    const string: string | number = value.match({
+      nothing: () => 'none',
+      something: (value) => {
+        spy0()
+        return value * 2
+      },
+    })
+    expect(string).to.equal('none')
+    expect(spy0.called).to.be.false
+  })
+
+  test('`Maybe#match()`: If this is a `Something` `Maybe`, returns the result of applying `cases.something` to the contained value', async () => {
+    const value = something(42)
+    expect(value.match({
+      nothing: () => 'none',
+      something: (value) => value * 2,
+    })).to.equal(84)
+  })
+
   test('`Maybe#or()`: If this is a `Nothing` `Maybe`, returns `other`', async () => {
     const value = nothing()
     const other = something('foo')
@@ -215,6 +563,76 @@ suite('`Maybe`', () => {
     expect(value.or(other)).to.equal(value)
   })
 
+  test('`Maybe#orElse()`: If this is a `Nothing` `Maybe`, returns the result of calling `f`', async () => {
+    const other = something('foo')
+    expect(nothing<string>().orElse(() => other)).to.equal(other)
+  })
+
+  test('`Maybe#orElse()`: If this is a `Something` `Maybe`, returns this `Maybe`', async () => {
+    const value = something('foo')
+    const spy0 = spy(() => something('bar'))
+    expect(value.orElse(spy0)).to.equal(value)
+    expect(spy0.called).to.be.false
+  })
+
+  test('`Maybe#toJSON()`: If this is a `Nothing` `Maybe`, returns its tagged JSON representation', async () => {
+    const value = nothing()
+    expect(value.toJSON()).to.deep.equal({ $eaux: 'Maybe', kind: 'nothing' })
+    expect(JSON.stringify(value)).to.equal('{"$eaux":"Maybe","kind":"nothing"}')
+  })
+
+  test('`Maybe#toJSON()`: If this is a `Something` `Maybe`, returns its tagged JSON representation containing the contained value', async () => {
+    const value = something(something(42))
+    expect(JSON.stringify(value)).to.equal('{"$eaux":"Maybe","kind":"something","value":{"$eaux":"Maybe","kind":"something","value":42}}')
+  })
+
+  test('`Maybe#toNullable()`: If this is a `Nothing` `Maybe`, returns `null`', async () => {
+    const value = nothing()
+    expect(value.toNullable()).to.be.null
+  })
+
+  test('`Maybe#toNullable()`: If this is a `Something` `Maybe`, returns the contained value', async () => {
+    const value = something(42)
+    expect(value.toNullable()).to.equal(42)
+  })
+
+  test('`Maybe#toUndefined()`: If this is a `Nothing` `Maybe`, returns `undefined`', async () => {
+    const value = nothing()
+    expect(value.toUndefined()).to.be.undefined
+  })
+
+  test('`Maybe#toUndefined()`: If this is a `Something` `Maybe`, returns the contained value', async () => {
+    const value = something(42)
+    expect(value.toUndefined()).to.equal(42)
+  })
+
+  test('`Maybe#transpose()`: If this is a `Nothing` `Maybe`, returns a `Success` `Result` containing a `Nothing` `Maybe`', async () => {
+    const value = nothing<Result<number, string>>().transpose()
+    expect(value.unwrap()).to.equal(nothing())
+  })
+
+  test('`Maybe#transpose()`: If this is a `Something` `Maybe` containing a `Failure` `Result`, returns that `Result`', async () => {
+    const value = failure<number, string>('Test error')
+    expect(something(value).transpose()).to.equal(value)
+  })
+
+  test('`Maybe#transpose()`: If this is a `Something` `Maybe` containing a `Success` `Result`, returns a `Success` `Result` containing a `Something` `Maybe`', async () => {
+    const value: Result<Maybe<number>, string> = something(success<number, string>(42)).transpose()
+    expect(value.unwrap().unwrap()).to.equal(42)
+  })
+
+  test('`Maybe#transpose()`: If this is a `Something` `Maybe` containing anything but a `Result`, throws', async () => {
+    const value = something([1] as unknown as Result<number, string>)
+    expect(function () {
+      value.transpose()
+    }).to.throw()
+  })
+
+  test('`Maybe#transpose()`: Is undone by `Result#transpose()`', async () => {
+    const value = something(success<number, string>(42))
+    expect(value.transpose().transpose().equals(value)).to.be.true
+  })
+
   test('`Maybe#unwrap()`: If this is a `Nothing` `Maybe`, throws an `ImproperUnwrapError`', async () => {
     const value = nothing()
     expect(function () {
@@ -226,4 +644,84 @@ suite('`Maybe`', () => {
     const value = something(42)
     expect(value.unwrap()).to.equal(42)
   })
+
+  test('`Maybe#unwrapOr()`: If this is a `Nothing` `Maybe`, returns `defaultValue`', async () => {
+    expect(nothing<number>().unwrapOr(0)).to.equal(0)
+  })
+
+  test('`Maybe#unwrapOr()`: If this is a `Something` `Maybe`, returns the contained value', async () => {
+    expect(something(42).unwrapOr(0)).to.equal(42)
+  })
+
+  test('`Maybe#unwrapOrElse()`: If this is a `Nothing` `Maybe`, returns the result of calling `f`', async () => {
+    expect(nothing<number>().unwrapOrElse(() => 0)).to.equal(0)
+  })
+
+  test('`Maybe#unwrapOrElse()`: If this is a `Something` `Maybe`, returns the contained value', async () => {
+    const spy0 = spy(() => 0)
+    expect(something(42).unwrapOrElse(spy0)).to.equal(42)
+    expect(spy0.called).to.be.false
+  })
+
+  test('`Maybe#unzip()`: If this is a `Nothing` `Maybe`, returns a pair of `Nothing` `Maybe`s', async () => {
+    const [value0, value1] = nothing<[number, string]>().unzip()
+    expect(value0).to.equal(nothing())
+    expect(value1).to.equal(nothing())
+  })
+
+  test('`Maybe#unzip()`: If this is a `Something` `Maybe`, returns a pair of `Something` `Maybe`s containing the elements of the contained pair', async () => {
+    const [value0, value1] = something<[number, string]>([42, 'foo']).unzip()
+    expect(value0.unwrap()).to.equal(42)
+    expect(value1.unwrap()).to.equal('foo')
+  })
+
+  test('`Maybe#xor()`: If exactly one `Maybe` is a `Something` `Maybe`, returns that `Maybe`', async () => {
+    const value = something('foo')
+    expect(value.xor(nothing())).to.equal(value)
+    expect(nothing<string>().xor(value)).to.equal(value)
+  })
+
+  test('`Maybe#xor()`: If both or neither `Maybe` is a `Something` `Maybe`, returns a `Nothing` `Maybe`', async () => {
+    expect(something('foo').xor(something('bar'))).to.equal(nothing())
+    expect(nothing().xor(nothing())).to.equal(nothing())
+  })
+
+  test('`Maybe#zip()`: If both `Maybe`s are `Something` `Maybe`s, returns a `Something` `Maybe` containing a pair of both contained values', async () => {
+    expect(something(42).zip(something('foo')).unwrap()).to.deep.equal([42, 'foo'])
+  })
+
+  test('`Maybe#zip()`: If either `Maybe` is a `Nothing` `Maybe`, returns a `Nothing` `Maybe`', async () => {
+    expect(something(42).zip(nothing())).to.equal(nothing())
+    expect(nothing().zip(something('foo'))).to.equal(nothing())
+  })
+
+  test('`Maybe#zipWith()`: If both `Maybe`s are `Something` `Maybe`s, returns a `Something` `Maybe` containing the result of applying `f` to both contained values', async () => {
+    expect(something(42).zipWith(something(8), (value, otherValue) => value + otherValue).unwrap()).to.equal(50)
+  })
+
+  test('`Maybe#zipWith()`: If either `Maybe` is a `Nothing` `Maybe`, returns a `Nothing` `Maybe`', async () => {
+    const spy0 = spy((value: number, otherValue: number) => value + otherValue)
+    expect(something(42).zipWith(nothing(), spy0)).to.equal(nothing())
+    expect(nothing<number>().zipWith(something(8), spy0)).to.equal(nothing())
+    expect(spy0.called).to.be.false
+  })
+
+  test('`Maybe#[Symbol.iterator]()`: If this is a `Nothing` `Maybe`, yields nothing', async () => {
+    const value = nothing<number>()
+    expect([...value]).to.deep.equal([])
+    for (const _ of value) {
+      expect.fail('Expected a `Nothing` `Maybe` to yield nothing')
+    }
+  })
+
+  test('`Maybe#[Symbol.iterator]()`: If this is a `Something` `Maybe`, yields the contained value', async () => {
+    const value = something(42)
+    expect([...value]).to.deep.equal([42])
+    expect(Array.from(value)).to.deep.equal([42])
+  })
+
+  test('`Maybe#[Symbol.iterator]()`: Lets arrays of `Maybe`s be flattened with `flatMap()`', async () => {
+    const values = [something(1), nothing<number>(), something(3)]
+    expect(values.flatMap((value) => [...value])).to.deep.equal([1, 3])
+  })
 })
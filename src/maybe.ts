@@ -17,10 +17,18 @@
  */
 
 import assert from './utilities/assert'
+import compareValues from './utilities/compare-values'
 import { customSymbol as customNodeJsUtilInspectSymbol } from './utilities/node-js-util-inspect'
+import deepEqual from './utilities/deep-equal'
+import encodeError from './utilities/encode-error'
 import ExpectationError from './error/expectation'
 import { failure } from './result'
+import hashValue from './utilities/hash-value'
 import ImproperUnwrapError from './error/improper-unwrap'
+import isIterable from './utilities/is-iterable'
+import { isResult } from './result'
+import type { JsonEncoded } from './utilities/encode-error'
+import makeAssertionError from './utilities/make-assertion-error'
 import nodeJsUtilInspect from './utilities/node-js-util-inspect'
 import type Result from './result'
 import { success } from './result'
@@ -28,11 +36,55 @@ import UnreachableCodeError from './error/unreachable-code'
 
 /**
  * A robust abstraction for handling optional values.
+ *
+ * A {@link Maybe} is either a {@link Something} or a {@link Nothing}, which can be told apart by {@link AbstractMaybe.kind}.
+ */
+type Maybe<TValue> =
+  | Nothing<TValue>
+  | Something<TValue>
+
+/**
+ * A `Nothing` {@link Maybe}, which contains no value.
+ */
+type Nothing<TValue> =
+  & AbstractMaybe<TValue>
+  & {
+    readonly kind: 'nothing',
+  }
+
+/**
+ * A `Something` {@link Maybe}, which contains a value.
+ */
+type Something<TValue> =
+  & AbstractMaybe<TValue>
+  & {
+    readonly kind: 'something',
+    readonly value: TValue,
+  }
+
+type MaybeJson<TValue> =
+  | {
+    readonly $eaux: 'Maybe',
+    readonly kind: 'nothing',
+  }
+  | {
+    readonly $eaux: 'Maybe',
+    readonly kind: 'something',
+    readonly value: JsonEncoded<TValue>,
+  }
+
+type MaybeMatchCases<TValue, TNothingReturn, TSomethingReturn> = {
+  nothing: () => TNothingReturn,
+  something: (value: TValue) => TSomethingReturn,
+}
+
+/**
+ * The base class of every {@link Maybe}, which implements the operations shared by both variants.
  */
-abstract class Maybe<TValue> {
+abstract class AbstractMaybe<TValue> {
   protected constructor() { }
 
-  #convertToString(toStringFunction: (value: unknown) => string) {
+  #convertToString(toStringFunction: (value: unknown) => string): string {
     if (this.isSomething()) {
       const value = this.unwrap()
       const valueString = toStringFunction(value)
@@ -58,39 +110,74 @@ Maybe{
     }
   }
 
+  /**
+   * The discriminant of this {@link Maybe}: `'something'` for a `Something` {@link Maybe} and `'nothing'` for a `Nothing` {@link Maybe}.
+   */
+  public abstract get kind(): 'nothing' | 'something'
+
   protected abstract _and<TOtherValue>(other: Maybe<TOtherValue>): Maybe<TOtherValue>
 
   protected abstract _andThen<TOtherValue>(f: (value: TValue) => Maybe<TOtherValue>): Maybe<TOtherValue>
 
+  protected abstract _contains(value: TValue, valueEq: (value: TValue, otherValue: TValue) => boolean): boolean
+
   protected abstract _expect(message: string): TValue
 
   protected abstract _filter(predicate: (value: TValue) => boolean): Maybe<TValue>
 
   protected abstract _getSuccessOr<TError extends NonNullable<unknown>>(error: TError): Result<TValue, TError>
 
+  protected abstract _getSuccessOrElse<TError extends NonNullable<unknown>>(f: () => TError): Result<TValue, TError>
+
   protected abstract _inspect(f: (value: TValue) => void): Maybe<TValue>
 
-  protected abstract _isNothing(): boolean
+  protected abstract _isNothing(): this is Nothing<TValue>
 
   protected abstract _isNothingOr(predicate: (value: TValue) => boolean): boolean
 
-  protected abstract _isSomething(): boolean
+  protected abstract _isSomething(): this is Something<TValue>
 
   protected abstract _isSomethingAnd(predicate: (value: TValue) => boolean): boolean
 
+  protected abstract _iter(): Generator<TValue, void, undefined>
+
   protected abstract _map<TNewValue>(f: (value: TValue) => TNewValue): Maybe<TNewValue>
 
+  protected abstract _mapOr<TNewValue>(defaultValue: TNewValue, f: (value: TValue) => TNewValue): TNewValue
+
+  protected abstract _mapOrElse<TNewValue>(defaultF: () => TNewValue, f: (value: TValue) => TNewValue): TNewValue
+
+  protected abstract _match<TNothingReturn, TSomethingReturn>(cases: MaybeMatchCases<TValue, TNothingReturn, TSomethingReturn>): TNothingReturn | TSomethingReturn
+
   protected abstract _or(other: Maybe<TValue>): Maybe<TValue>
 
+  protected abstract _orElse(f: () => Maybe<TValue>): Maybe<TValue>
+
+  protected abstract _toNullable(): TValue | null
+
+  protected abstract _toUndefined(): TValue | undefined
+
+  protected abstract _toJSON(): MaybeJson<TValue>
+
   protected abstract _unwrap(): TValue
 
+  protected abstract _unwrapOr(defaultValue: TValue): TValue
+
+  protected abstract _unwrapOrElse(f: () => TValue): TValue
+
+  protected abstract _xor(other: Maybe<TValue>): Maybe<TValue>
+
+  protected abstract _zip<TOtherValue>(other: Maybe<TOtherValue>): Maybe<[TValue, TOtherValue]>
+
+  protected abstract _zipWith<TOtherValue, TNewValue>(other: Maybe<TOtherValue>, f: (value: TValue, otherValue: TOtherValue) => TNewValue): Maybe<TNewValue>
+
   /**
    * If this is a `Something` {@link Maybe}, returns {@link other}.
    * If this is a `Nothing` {@link Maybe}, returns this {@link Maybe}.
    *
    * @param other The {@link Maybe} to return if this is a `Something` {@link Maybe}.
    */
-  public and<TOtherValue>(other: Maybe<TOtherValue>) {
+  public and<TOtherValue>(other: Maybe<TOtherValue>): Maybe<TOtherValue> {
     assert(isMaybe(other))
     return this._and(other)
   }
@@ -106,6 +193,62 @@ Maybe{
     return this._andThen(f)
   }
 
+  /**
+   * Compares this {@link Maybe} with {@link other}, returning a negative number if this comes first, a positive number if {@link other} comes first, and `0` otherwise.
+   *
+   * A `Nothing` {@link Maybe} comes before a `Something` {@link Maybe}, and two `Something` {@link Maybe}s are ordered by {@link valueCompare} applied to their contained values.
+   *
+   * By default, numbers, bigints, strings, booleans and dates are ordered naturally, arrays lexicographically, and nested {@link Maybe}s and {@link Result}s by their own `compare()`; other values compare as `0`.
+   *
+   * @param other The {@link Maybe} to compare this {@link Maybe} with.
+   * @param valueCompare The function to compare the contained values with.
+   */
+  public compare(other: Maybe<TValue>, valueCompare: (value: TValue, otherValue: TValue) => number = compareValues): number {
+    assert(isMaybe(other))
+    assert(typeof valueCompare === 'function')
+    let order: number
+    if (this.isSomething() && other.isSomething()) {
+      order = valueCompare(this.value, other.value)
+    } else {
+      order = Number(this.isSomething()) - Number(other.isSomething())
+    }
+    assert(typeof order === 'number')
+    return Math.sign(order)
+  }
+
+  /**
+   * If this is a `Something` {@link Maybe}, returns whether the contained value is equal to the provided {@link value} according to {@link valueEq}.
+   * If this is a `Nothing` {@link Maybe}, returns `false`.
+   *
+   * By default, values are compared deeply, as by {@link equals}.
+   *
+   * @param value The value to look for.
+   * @param valueEq The function to compare the contained value with.
+   */
+  public contains(value: TValue, valueEq: (value: TValue, otherValue: TValue) => boolean = deepEqual): boolean {
+    assert(typeof valueEq === 'function')
+    return this._contains(value, valueEq)
+  }
+
+  /**
+   * Returns `true` if this {@link Maybe} and {@link other} are both `Nothing` {@link Maybe}s, or both `Something` {@link Maybe}s for whose contained values {@link valueEq} returns `true`.
+   *
+   * By default, contained values are compared deeply: arrays, plain objects, maps (whose keys are matched with `Map#has()`), sets, dates and errors are compared by their contents, cyclic references included, and nested {@link Maybe}s and {@link Result}s by their own `equals()`.
+   *
+   * @param other The {@link Maybe} to compare this {@link Maybe} with.
+   * @param valueEq The function to compare the contained values with.
+   */
+  public equals(other: Maybe<TValue>, valueEq: (value: TValue, otherValue: TValue) => boolean = deepEqual): boolean {
+    assert(isMaybe(other))
+    assert(typeof valueEq === 'function')
+    let isEqual = this.isNothing() && other.isNothing()
+    if (this.isSomething() && other.isSomething()) {
+      isEqual = valueEq(this.value, other.value)
+    }
+    assert(typeof isEqual === 'boolean')
+    return isEqual
+  }
+
   /**
    * If this is a `Something` {@link Maybe}, returns the contained value.
    * If this is a `Nothing` {@link Maybe}, throws an {@link ExpectationError} with the provided {@link message}.
@@ -128,6 +271,51 @@ Maybe{
     return this._filter(predicate)
   }
 
+  /**
+   * If this is a `Something` {@link Maybe} containing a {@link Maybe}, returns the contained {@link Maybe}.
+   * If this is a `Nothing` {@link Maybe}, returns this {@link Maybe}.
+   */
+  public flatten<TInnerValue>(this: Maybe<Maybe<TInnerValue>>): Maybe<TInnerValue> {
+    return this.andThen((value) => value)
+  }
+
+  /**
+   * If this is a `Something` {@link Maybe}, returns a `Failure` {@link Result} containing the contained value.
+   * If this is a `Nothing` {@link Maybe}, returns a `Success` {@link Result} containing the provided {@link value}.
+   *
+   * This turns the {@link Maybe} returned by `Result#getFailure()` back into a {@link Result}.
+   *
+   * @param value The value to include in the `Success` {@link Result}.
+   */
+  public getFailureOr<TThisValue extends NonNullable<unknown>, TSuccessValue>(this: Maybe<TThisValue>, value: TSuccessValue): Result<TSuccessValue, TThisValue> {
+    return this.match({
+      nothing: () => success<TSuccessValue, TThisValue>(value),
+      something: (error) => {
+        assert(typeof error !== 'undefined')
+        assert(error !== null)
+        return failure<TSuccessValue, TThisValue>(error)
+      },
+    })
+  }
+
+  /**
+   * If this is a `Something` {@link Maybe}, returns a `Failure` {@link Result} containing the contained value.
+   * If this is a `Nothing` {@link Maybe}, returns a `Success` {@link Result} containing the result of calling {@link f}.
+   *
+   * @param f The function that returns the value to include in the `Success` {@link Result}.
+   */
+  public getFailureOrElse<TThisValue extends NonNullable<unknown>, TSuccessValue>(this: Maybe<TThisValue>, f: () => TSuccessValue): Result<TSuccessValue, TThisValue> {
+    assert(typeof f === 'function')
+    return this.match({
+      nothing: () => success<TSuccessValue, TThisValue>(f()),
+      something: (error) => {
+        assert(typeof error !== 'undefined')
+        assert(error !== null)
+        return failure<TSuccessValue, TThisValue>(error)
+      },
+    })
+  }
+
   /**
    * If this is a `Something` {@link Maybe}, returns a `Success` {@link Result} containing the contained value.
    * If this is a `Nothing` {@link Maybe}, returns a `Failure` {@link Result} containing the provided {@link error}.
@@ -138,6 +326,27 @@ Maybe{
     return this._getSuccessOr(error)
   }
 
+  /**
+   * If this is a `Something` {@link Maybe}, returns a `Success` {@link Result} containing the contained value.
+   * If this is a `Nothing` {@link Maybe}, returns a `Failure` {@link Result} containing the result of calling {@link f}.
+   *
+   * @param f The function that returns the error to include in the `Failure` {@link Result}.
+   */
+  public getSuccessOrElse<TError extends NonNullable<unknown>>(f: () => TError) {
+    assert(typeof f === 'function')
+    return this._getSuccessOrElse(f)
+  }
+
+  /**
+   * Returns a hash code for this {@link Maybe}, which is the same for any two {@link Maybe}s that are equal by the default {@link equals}.
+   */
+  public hashCode() {
+    return this._match({
+      nothing: () => hashValue(['Maybe', 'nothing']),
+      something: (value) => hashValue(['Maybe', 'something', value]),
+    })
+  }
+
   /**
    * If this is a `Something` {@link Maybe}, applies {@link f} to the contained value and returns this {@link Maybe}.
    * If this is a `Nothing` {@link Maybe}, returns this {@link Maybe}.
@@ -153,7 +362,7 @@ Maybe{
    * If this is a `Something` {@link Maybe}, returns `false`.
    * If this is a `Nothing` {@link Maybe}, returns `true`.
    */
-  public isNothing() {
+  public isNothing(): this is Nothing<TValue> {
     return this._isNothing()
   }
 
@@ -172,7 +381,7 @@ Maybe{
    * If this is a `Something` {@link Maybe}, returns `true`.
    * If this is a `Nothing` {@link Maybe}, returns `false`.
    */
-  public isSomething() {
+  public isSomething(): this is Something<TValue> {
     return this._isSomething()
   }
 
@@ -187,6 +396,14 @@ Maybe{
     return this._isSomethingAnd(predicate)
   }
 
+  /**
+   * If this is a `Something` {@link Maybe}, yields the contained value.
+   * If this is a `Nothing` {@link Maybe}, yields nothing.
+   */
+  public iter(): Generator<TValue, void, undefined> {
+    return this._iter()
+  }
+
   /**
    * If this is a `Something` {@link Maybe}, returns a `Something` {@link Maybe} containing the result of applying {@link f} to the contained value.
    * If this is a `Nothing` {@link Maybe}, returns this {@link Maybe}.
@@ -198,21 +415,113 @@ Maybe{
     return this._map(f)
   }
 
+  /**
+   * If this is a `Something` {@link Maybe}, returns the result of applying {@link f} to the contained value.
+   * If this is a `Nothing` {@link Maybe}, returns the provided {@link defaultValue}.
+   *
+   * @param defaultValue The value to return if this is a `Nothing` {@link Maybe}.
+   * @param f The function to apply to the contained value.
+   */
+  public mapOr<TNewValue>(defaultValue: TNewValue, f: (value: TValue) => TNewValue) {
+    assert(typeof f === 'function')
+    return this._mapOr(defaultValue, f)
+  }
+
+  /**
+   * If this is a `Something` {@link Maybe}, returns the result of applying {@link f} to the contained value.
+   * If this is a `Nothing` {@link Maybe}, returns the result of calling {@link defaultF}.
+   *
+   * @param defaultF The function to call if this is a `Nothing` {@link Maybe}.
+   * @param f The function to apply to the contained value.
+   */
+  public mapOrElse<TNewValue>(defaultF: () => TNewValue, f: (value: TValue) => TNewValue) {
+    assert(typeof defaultF === 'function')
+    assert(typeof f === 'function')
+    return this._mapOrElse(defaultF, f)
+  }
+
+  /**
+   * If this is a `Something` {@link Maybe}, returns the result of applying `cases.something` to the contained value.
+   * If this is a `Nothing` {@link Maybe}, returns the result of calling `cases.nothing`.
+   *
+   * @param cases The functions to apply to the contained value or to call if there is none.
+   */
+  public match<TNothingReturn, TSomethingReturn>(cases: MaybeMatchCases<TValue, TNothingReturn, TSomethingReturn>) {
+    assert((typeof cases === 'object') && (cases !== null))
+    assert(typeof cases.nothing === 'function')
+    assert(typeof cases.something === 'function')
+    return this._match(cases)
+  }
+
   /**
    * If this is a `Something` {@link Maybe}, returns this {@link Maybe}.
    * If this is a `Nothing` {@link Maybe}, returns {@link other}.
    *
    * @param other The {@link Maybe} to return if this is a `Nothing` {@link Maybe}.
    */
-  public or(other: Maybe<TValue>) {
+  public or(other: Maybe<TValue>): Maybe<TValue> {
     assert(isMaybe(other))
     return this._or(other)
   }
 
+  /**
+   * If this is a `Something` {@link Maybe}, returns this {@link Maybe}.
+   * If this is a `Nothing` {@link Maybe}, returns the result of calling {@link f}.
+   *
+   * @param f The function to call if this is a `Nothing` {@link Maybe}.
+   */
+  public orElse(f: () => Maybe<TValue>): Maybe<TValue> {
+    assert(typeof f === 'function')
+    return this._orElse(f)
+  }
+
+  /**
+   * If this is a `Something` {@link Maybe}, returns the contained value.
+   * If this is a `Nothing` {@link Maybe}, returns `null`.
+   */
+  public toNullable() {
+    return this._toNullable()
+  }
+
+  /**
+   * Returns the tagged JSON representation of this {@link Maybe}, which is used by `JSON.stringify()`.
+   *
+   * If this is a `Something` {@link Maybe}, returns `{ "$eaux": "Maybe", "kind": "something", "value": … }`.
+   * If this is a `Nothing` {@link Maybe}, returns `{ "$eaux": "Maybe", "kind": "nothing" }`.
+   */
+  public toJSON() {
+    return this._toJSON()
+  }
+
   public toString() {
     return this.#convertToString((value) => `${value}`)
   }
 
+  /**
+   * If this is a `Something` {@link Maybe}, returns the contained value.
+   * If this is a `Nothing` {@link Maybe}, returns `undefined`.
+   */
+  public toUndefined() {
+    return this._toUndefined()
+  }
+
+  /**
+   * Converts a {@link Maybe} of a {@link Result} into a {@link Result} of a {@link Maybe}.
+   *
+   * If this is a `Something` {@link Maybe} containing a `Success` {@link Result}, returns a `Success` {@link Result} containing a `Something` {@link Maybe} containing its value.
+   * If this is a `Something` {@link Maybe} containing a `Failure` {@link Result}, returns that {@link Result}.
+   * If this is a `Nothing` {@link Maybe}, returns a `Success` {@link Result} containing a `Nothing` {@link Maybe}.
+   */
+  public transpose<TInnerValue, TInnerError extends NonNullable<unknown>>(this: Maybe<Result<TInnerValue, TInnerError>>): Result<Maybe<TInnerValue>, TInnerError> {
+    return this.match({
+      nothing: () => success<Maybe<TInnerValue>, TInnerError>(nothing()),
+      something: (result) => {
+        assert(isResult(result))
+        return result.map((value) => something(value))
+      },
+    })
+  }
+
   /**
    * If this is a `Something` {@link Maybe}, returns the contained value.
    * If this is a `Nothing` {@link Maybe}, throws an {@link ImproperUnwrapError}.
@@ -221,6 +530,83 @@ Maybe{
     return this._unwrap()
   }
 
+  /**
+   * If this is a `Something` {@link Maybe}, returns the contained value.
+   * If this is a `Nothing` {@link Maybe}, returns the provided {@link defaultValue}.
+   *
+   * @param defaultValue The value to return if this is a `Nothing` {@link Maybe}.
+   */
+  public unwrapOr(defaultValue: TValue) {
+    return this._unwrapOr(defaultValue)
+  }
+
+  /**
+   * If this is a `Something` {@link Maybe}, returns the contained value.
+   * If this is a `Nothing` {@link Maybe}, returns the result of calling {@link f}.
+   *
+   * @param f The function to call if this is a `Nothing` {@link Maybe}.
+   */
+  public unwrapOrElse(f: () => TValue) {
+    assert(typeof f === 'function')
+    return this._unwrapOrElse(f)
+  }
+
+  /**
+   * If this is a `Something` {@link Maybe} containing a pair, returns a pair of `Something` {@link Maybe}s containing its elements.
+   * If this is a `Nothing` {@link Maybe}, returns a pair of `Nothing` {@link Maybe}s.
+   */
+  public unzip<TFirstValue, TSecondValue>(this: Maybe<readonly [TFirstValue, TSecondValue]>): [Maybe<TFirstValue>, Maybe<TSecondValue>] {
+    return this.match({
+      nothing: (): [Maybe<TFirstValue>, Maybe<TSecondValue>] => [nothing(), nothing()],
+      something: ([value, otherValue]): [Maybe<TFirstValue>, Maybe<TSecondValue>] => [something(value), something(otherValue)],
+    })
+  }
+
+  /**
+   * If exactly one of this {@link Maybe} and {@link other} is a `Something` {@link Maybe}, returns that {@link Maybe}.
+   * Otherwise, returns a `Nothing` {@link Maybe}.
+   *
+   * @param other The {@link Maybe} to compare this {@link Maybe} with.
+   */
+  public xor(other: Maybe<TValue>): Maybe<TValue> {
+    assert(isMaybe(other))
+    return this._xor(other)
+  }
+
+  /**
+   * If both this {@link Maybe} and {@link other} are `Something` {@link Maybe}s, returns a `Something` {@link Maybe} containing a pair of both contained values.
+   * Otherwise, returns a `Nothing` {@link Maybe}.
+   *
+   * @param other The {@link Maybe} to zip this {@link Maybe} with.
+   */
+  public zip<TOtherValue>(other: Maybe<TOtherValue>): Maybe<[TValue, TOtherValue]> {
+    assert(isMaybe(other))
+    return this._zip(other)
+  }
+
+  /**
+   * If both this {@link Maybe} and {@link other} are `Something` {@link Maybe}s, returns a `Something` {@link Maybe} containing the result of applying {@link f} to both contained values.
+   * Otherwise, returns a `Nothing` {@link Maybe}.
+   *
+   * @param other The {@link Maybe} to zip this {@link Maybe} with.
+   * @param f The function to apply to both contained values.
+   */
+  public zipWith<TOtherValue, TNewValue>(other: Maybe<TOtherValue>, f: (value: TValue, otherValue: TOtherValue) => TNewValue): Maybe<TNewValue> {
+    assert(isMaybe(other))
+    assert(typeof f === 'function')
+    return this._zipWith(other, f)
+  }
+
+  /**
+   * If this is a `Something` {@link Maybe}, yields the contained value.
+   * If this is a `Nothing` {@link Maybe}, yields nothing.
+   *
+   * This lets a {@link Maybe} be used wherever an iterable of zero or one values is expected, such as `for…of`, spread syntax and `Array.from()`.
+   */
+  public [Symbol.iterator](): Generator<TValue, void, undefined> {
+    return this._iter()
+  }
+
   public [customNodeJsUtilInspectSymbol]() {
     return this.#convertToString((value) => {
       return nodeJsUtilInspect(value)
@@ -228,8 +614,8 @@ Maybe{
   }
 }
 
-class Nothing extends Maybe<never> {
-  static #instance: Nothing
+class NothingMaybe extends AbstractMaybe<never> {
+  static #instance: NothingMaybe
 
   static {
     const instance = new this()
@@ -244,6 +630,10 @@ class Nothing extends Maybe<never> {
     super()
   }
 
+  public get kind() {
+    return 'nothing' as const
+  }
+
   protected _and() {
     return this
   }
@@ -252,6 +642,10 @@ class Nothing extends Maybe<never> {
     return this
   }
 
+  protected _contains() {
+    return false
+  }
+
   protected _expect(message: string): never {
     throw new ExpectationError(message)
   }
@@ -264,11 +658,18 @@ class Nothing extends Maybe<never> {
     return failure<never, TError>(error)
   }
 
+  protected _getSuccessOrElse<TError extends NonNullable<unknown>>(f: () => TError) {
+    const error = f()
+    assert(typeof error !== 'undefined')
+    assert(error !== null)
+    return failure<never, TError>(error)
+  }
+
   protected _inspect() {
     return this
   }
 
-  protected _isNothing() {
+  protected _isNothing(): this is Nothing<never> {
     return true
   }
 
@@ -276,7 +677,7 @@ class Nothing extends Maybe<never> {
     return true
   }
 
-  protected _isSomething() {
+  protected _isSomething(): this is Something<never> {
     return false
   }
 
@@ -284,20 +685,75 @@ class Nothing extends Maybe<never> {
     return false
   }
 
+  protected *_iter(): Generator<never, void, undefined> { }
+
   protected _map() {
     return this
   }
 
+  protected _mapOr<TNewValue>(defaultValue: TNewValue) {
+    return defaultValue
+  }
+
+  protected _mapOrElse<TNewValue>(defaultF: () => TNewValue) {
+    return defaultF()
+  }
+
+  protected _match<TNothingReturn, TSomethingReturn>(cases: MaybeMatchCases<never, TNothingReturn, TSomethingReturn>) {
+    return cases.nothing()
+  }
+
   protected _or(other: Maybe<never>) {
     return other
   }
 
+  protected _orElse(f: () => Maybe<never>) {
+    const other = f()
+    assert(isMaybe(other))
+    return other
+  }
+
+  protected _toJSON() {
+    return {
+      $eaux: 'Maybe',
+      kind: 'nothing',
+    } as const
+  }
+
+  protected _toNullable() {
+    return null
+  }
+
+  protected _toUndefined() {
+    return undefined
+  }
+
   protected _unwrap(): never {
     throw new ImproperUnwrapError('Attempted to unwrap a `Nothing` value')
   }
+
+  protected _unwrapOr<TValue>(defaultValue: TValue) {
+    return defaultValue
+  }
+
+  protected _unwrapOrElse<TValue>(f: () => TValue) {
+    return f()
+  }
+
+  protected _xor(other: Maybe<never>) {
+    return other
+  }
+
+  protected _zip() {
+    return this
+  }
+
+  protected _zipWith() {
+    return this
+  }
 }
 
-class Something<TValue> extends Maybe<TValue> {
+class SomethingMaybe<TValue> extends AbstractMaybe<TValue> {
   public static make<TValue>(value: TValue) {
     return new this(value)
   }
@@ -309,6 +765,17 @@ class Something<TValue> extends Maybe<TValue> {
     this.#value = value
   }
 
+  public get kind() {
+    return 'something' as const
+  }
+
+  /**
+   * The contained value.
+   */
+  public get value() {
+    return this.#value
+  }
+
   protected _and<TOtherValue>(other: Maybe<TOtherValue>) {
     return other
   }
@@ -319,6 +786,12 @@ class Something<TValue> extends Maybe<TValue> {
     return value
   }
 
+  protected _contains(value: TValue, valueEq: (value: TValue, otherValue: TValue) => boolean) {
+    const isEqual = valueEq(this.#value, value)
+    assert(typeof isEqual === 'boolean')
+    return isEqual
+  }
+
   protected _expect() {
     return this.#value
   }
@@ -328,19 +801,23 @@ class Something<TValue> extends Maybe<TValue> {
     assert(typeof isSatified === 'boolean')
     return isSatified ?
       this :
-      Nothing.make()
+      NothingMaybe.make()
   }
 
   protected _getSuccessOr() {
     return success<TValue, never>(this.#value)
   }
 
+  protected _getSuccessOrElse() {
+    return success<TValue, never>(this.#value)
+  }
+
   protected _inspect(f: (value: TValue) => void) {
     f(this.#value)
     return this
   }
 
-  protected _isNothing() {
+  protected _isNothing(): this is Nothing<TValue> {
     return false
   }
 
@@ -350,7 +827,7 @@ class Something<TValue> extends Maybe<TValue> {
     return isSatified
   }
 
-  protected _isSomething() {
+  protected _isSomething(): this is Something<TValue> {
     return true
   }
 
@@ -360,18 +837,98 @@ class Something<TValue> extends Maybe<TValue> {
     return isSatified
   }
 
+  protected *_iter(): Generator<TValue, void, undefined> {
+    yield this.#value
+  }
+
   protected _map<TNewValue>(f: (value: TValue) => TNewValue) {
     const value = f(this.#value)
-    return Something.make(value)
+    return SomethingMaybe.make(value)
+  }
+
+  protected _mapOr<TNewValue>(_defaultValue: TNewValue, f: (value: TValue) => TNewValue) {
+    return f(this.#value)
+  }
+
+  protected _mapOrElse<TNewValue>(_defaultF: () => TNewValue, f: (value: TValue) => TNewValue) {
+    return f(this.#value)
+  }
+
+  protected _match<TNothingReturn, TSomethingReturn>(cases: MaybeMatchCases<TValue, TNothingReturn, TSomethingReturn>) {
+    return cases.something(this.#value)
   }
 
   protected _or() {
     return this
   }
 
+  protected _orElse() {
+    return this
+  }
+
+  protected _toJSON() {
+    return {
+      $eaux: 'Maybe',
+      kind: 'something',
+      value: encodeError(this.#value),
+    } as const
+  }
+
+  protected _toNullable() {
+    return this.#value
+  }
+
+  protected _toUndefined() {
+    return this.#value
+  }
+
   protected _unwrap() {
     return this.#value
   }
+
+  protected _unwrapOr() {
+    return this.#value
+  }
+
+  protected _unwrapOrElse() {
+    return this.#value
+  }
+
+  protected _xor(other: Maybe<TValue>) {
+    return other.isNothing() ?
+      this :
+      NothingMaybe.make()
+  }
+
+  protected _zip<TOtherValue>(other: Maybe<TOtherValue>) {
+    return other.map((otherValue): [TValue, TOtherValue] => [this.#value, otherValue])
+  }
+
+  protected _zipWith<TOtherValue, TNewValue>(other: Maybe<TOtherValue>, f: (value: TValue, otherValue: TOtherValue) => TNewValue) {
+    return other.map((otherValue) => f(this.#value, otherValue))
+  }
+}
+
+type Falsy =
+  | ''
+  | 0
+  | 0n
+  | false
+  | null
+  | undefined
+
+type MaybeBinder =
+  <TValue>(maybe: Maybe<TValue>) => Generator<Maybe<TValue>, TValue, unknown>
+
+type MaybeValueOf<TMaybe> =
+  TMaybe extends AbstractMaybe<infer TValue> ?
+    TValue :
+    never
+
+function* bindMaybe<TValue>(maybe: Maybe<TValue>): Generator<Maybe<TValue>, TValue, unknown> {
+  assert(isMaybe(maybe))
+  const value = yield maybe
+  return value as TValue
 }
 
 /**
@@ -380,14 +937,131 @@ class Something<TValue> extends Maybe<TValue> {
  * @param value The value to check.
  */
 function isMaybe(value: unknown): value is Maybe<unknown> {
-  return (value instanceof Maybe)
+  return (value instanceof AbstractMaybe)
+}
+
+/**
+ * Asserts that the provided {@link maybe} is a `Nothing` {@link Maybe}, narrowing it accordingly.
+ *
+ * If it is a `Something` {@link Maybe}, throws an {@link ImproperUnwrapError}, or an {@link ExpectationError} with the provided {@link message} if there is one, describing the contained value.
+ *
+ * @param maybe The {@link Maybe} to check.
+ * @param message The message to include in the {@link ExpectationError}.
+ */
+function assertNothing<TValue>(maybe: Maybe<TValue>, message?: string): asserts maybe is Nothing<TValue> {
+  assert(isMaybe(maybe))
+  assert((typeof message === 'undefined') || (typeof message === 'string'))
+  if (maybe.isSomething()) {
+    throw makeAssertionError('Expected a `Nothing` value', maybe, message)
+  }
+}
+
+/**
+ * Asserts that the provided {@link maybe} is a `Something` {@link Maybe}, narrowing it accordingly.
+ *
+ * If it is a `Nothing` {@link Maybe}, throws an {@link ImproperUnwrapError}, or an {@link ExpectationError} with the provided {@link message} if there is one.
+ *
+ * @param maybe The {@link Maybe} to check.
+ * @param message The message to include in the {@link ExpectationError}.
+ */
+function assertSomething<TValue>(maybe: Maybe<TValue>, message?: string): asserts maybe is Something<TValue> {
+  assert(isMaybe(maybe))
+  assert((typeof message === 'undefined') || (typeof message === 'string'))
+  if (maybe.isNothing()) {
+    throw makeAssertionError('Expected a `Something` value', maybe, message)
+  }
+}
+
+/**
+ * If the provided {@link value} is falsy, returns a `Nothing` {@link Maybe}.
+ * Otherwise, returns a `Something` {@link Maybe} containing the provided {@link value}.
+ *
+ * @param value The value to convert.
+ */
+function fromFalsy<TValue>(value: TValue): Maybe<Exclude<TValue, Falsy>> {
+  return value ?
+    SomethingMaybe.make(value as Exclude<TValue, Falsy>) :
+    NothingMaybe.make()
+}
+
+/**
+ * If the provided {@link iterable} yields at least one value, returns a `Something` {@link Maybe} containing the first one.
+ * Otherwise, returns a `Nothing` {@link Maybe}.
+ *
+ * Iteration stops after the first value.
+ *
+ * @param iterable The iterable to take the first value of.
+ */
+function fromIterable<TValue>(iterable: Iterable<TValue>): Maybe<TValue> {
+  assert(isIterable(iterable))
+  for (const value of iterable) {
+    return SomethingMaybe.make(value)
+  }
+  return NothingMaybe.make()
+}
+
+/**
+ * If the provided {@link value} is `null` or `undefined`, returns a `Nothing` {@link Maybe}.
+ * Otherwise, returns a `Something` {@link Maybe} containing the provided {@link value}.
+ *
+ * @param value The value to convert.
+ */
+function fromNullable<TValue>(value: TValue): Maybe<NonNullable<TValue>> {
+  return ((typeof value === 'undefined') || (value === null)) ?
+    NothingMaybe.make() :
+    SomethingMaybe.make(value)
+}
+
+/**
+ * If the provided {@link value} satisfies the provided {@link predicate}, returns a `Something` {@link Maybe} containing the provided {@link value}.
+ * Otherwise, returns a `Nothing` {@link Maybe}.
+ *
+ * If {@link predicate} is a type guard, the contained value is narrowed accordingly.
+ *
+ * @param value The value to convert.
+ * @param predicate The predicate to apply to the provided {@link value}.
+ */
+function fromPredicate<TValue, TNarrowedValue extends TValue>(value: TValue, predicate: (value: TValue) => value is TNarrowedValue): Maybe<TNarrowedValue>
+function fromPredicate<TValue>(value: TValue, predicate: (value: TValue) => boolean): Maybe<TValue>
+function fromPredicate<TValue>(value: TValue, predicate: (value: TValue) => boolean) {
+  assert(typeof predicate === 'function')
+  const isSatified = predicate(value)
+  assert(typeof isSatified === 'boolean')
+  return isSatified ?
+    SomethingMaybe.make(value) :
+    NothingMaybe.make()
+}
+
+/**
+ * Runs the generator returned by {@link f} as a block of {@link Maybe}-returning steps.
+ *
+ * Inside the generator, `yield* bind(maybe)` evaluates to the contained value if `maybe` is a `Something` {@link Maybe}.
+ * The first `Nothing` {@link Maybe} bound this way stops the generator and a `Nothing` {@link Maybe} is returned as the outcome of the whole block.
+ * If the generator completes, returns a `Something` {@link Maybe} containing its return value.
+ *
+ * @param f The generator function to run, which receives the `bind` function.
+ */
+function genMaybe<TValue>(f: (bind: MaybeBinder) => Generator<Maybe<unknown>, TValue, unknown>): Maybe<TValue> {
+  assert(typeof f === 'function')
+  const iterator: Iterator<Maybe<unknown>, TValue, unknown> = f(bindMaybe)
+  let step = iterator.next()
+  while (!step.done) {
+    const maybe = step.value
+    assert(isMaybe(maybe))
+    if (maybe.isNothing()) {
+      iterator.return?.()
+      return NothingMaybe.make()
+    }
+    step = iterator.next(maybe.unwrap())
+  }
+  return SomethingMaybe.make(step.value)
 }
 
 /**
  * Creates and returns a new `Nothing` {@link Maybe}.
  */
 function nothing<TValue = any>(): Maybe<TValue> {
-  return Nothing.make()
+  return NothingMaybe.make()
 }
 
 /**
@@ -396,12 +1070,23 @@ function nothing<TValue = any>(): Maybe<TValue> {
  * @param value The value to contain in the new `Something` {@link Maybe}.
  */
 function something<TValue = any>(value: TValue): Maybe<TValue> {
-  return Something.make(value)
+  return SomethingMaybe.make(value)
 }
 
 export {
   type Maybe as default,
+  assertNothing,
+  assertSomething,
+  fromFalsy,
+  fromIterable,
+  fromNullable,
+  fromPredicate,
+  genMaybe,
   isMaybe,
+  type MaybeJson,
+  type MaybeValueOf,
   nothing,
+  type Nothing,
   something,
+  type Something,
 }
@@ -0,0 +1,151 @@
+/*
+ *******************************************************************************
+ * Copyright © 2024-present Jonathan Barronville <jonathanmarvens@proton.me>   *
+ *                                                                             *
+ * Licensed under the Apache License, Version 2.0 (the "License"); you may not *
+ * use this file except in compliance with the License.                        *
+ * You may obtain a copy of the License at                                     *
+ *                                                                             *
+ *     http://www.apache.org/licenses/LICENSE-2.0                              *
+ *                                                                             *
+ * Unless required by applicable law or agreed to in writing, software         *
+ * distributed under the License is distributed on an "AS IS" BASIS, WITHOUT   *
+ * WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.            *
+ * See the License for the specific language governing permissions and         *
+ * limitations under the License.                                              *
+ *******************************************************************************
+ */
+
+import { allResults } from './result-collection'
+import { collectFailures } from './result-collection'
+import { collectStructFailures } from './result-collection'
+import { expect } from 'chai'
+import { failure } from './result'
+import { firstSuccess } from './result-collection'
+import { partitionResults } from './result-collection'
+import type Result from './result'
+import { structResults } from './result-collection'
+import { success } from './result'
+import { test } from 'mocha'
+
+test('`allResults()`: If every `Result` is a `Success` `Result`, returns a `Success` `Result` containing an array of the contained values', async () => {
+  const value0: Result<[number, string], 'Test error 0' | 'Test error 1'> = allResults([
+    success<number, 'Test error 0'>(42),
+    success<string, 'Test error 1'>('foo'),
+  ])
+  expect(value0.unwrap()).to.deep.equal([42, 'foo'])
+  const value1 = allResults(new Set([success(1), success(2)]))
+  expect(value1.unwrap()).to.deep.equal([1, 2])
+  const value2 = allResults([])
+  expect(value2.unwrap()).to.deep.equal([])
+})
+
+test('`allResults()`: If any `Result` is a `Failure` `Result`, returns a `Failure` `Result` containing the error of the first one and stops iterating', async () => {
+  const error0 = new Error('Test error 0')
+  const error1 = new Error('Test error 1')
+  let count = 0
+  const results = (function* () {
+    count += 1
+    yield success<number, Error>(42)
+    count += 1
+    yield failure<number, Error>(error0)
+    count += 1
+    yield failure<number, Error>(error1)
+  })()
+  const value = allResults(results)
+  expect(value.unwrapFailure()).to.equal(error0)
+  expect(count).to.equal(2)
+})
+
+test('`collectFailures()`: If every `Result` is a `Success` `Result`, returns a `Success` `Result` containing an array of the contained values', async () => {
+  const value: Result<[number, string], ('Test error 0' | 'Test error 1')[]> = collectFailures([
+    success<number, 'Test error 0'>(42),
+    success<string, 'Test error 1'>('foo'),
+  ])
+  expect(value.unwrap()).to.deep.equal([42, 'foo'])
+})
+
+test('`collectFailures()`: If any `Result` is a `Failure` `Result`, returns a `Failure` `Result` containing an array of every contained error', async () => {
+  const error0 = new Error('Test error 0')
+  const error1 = new Error('Test error 1')
+  const value = collectFailures([
+    failure(error0),
+    success(42),
+    failure(error1),
+  ])
+  expect(value.unwrapFailure()).to.deep.equal([error0, error1])
+})
+
+test('`collectStructFailures()`: If every `Result` is a `Success` `Result`, returns a `Success` `Result` containing an object of the contained values', async () => {
+  const value: Result<{ name: string, age: number }, { name?: string, age?: Error }> = collectStructFailures({
+    name: success<string, string>('foo'),
+    age: success<number, Error>(42),
+  })
+  expect(value.unwrap()).to.deep.equal({ name: 'foo', age: 42 })
+})
+
+test('`collectStructFailures()`: If any `Result` is a `Failure` `Result`, returns a `Failure` `Result` containing an object of every contained error', async () => {
+  const error = new Error('Test error')
+  const value = collectStructFailures({
+    name: failure<string, string>('Missing name'),
+    email: success<string, string>('foo@example.com'),
+    age: failure<number, Error>(error),
+  })
+  expect(value.unwrapFailure()).to.deep.equal({ name: 'Missing name', age: error })
+})
+
+test('`firstSuccess()`: If any `Result` is a `Success` `Result`, returns the first one and stops iterating', async () => {
+  const value0 = success<number, Error>(42)
+  let count = 0
+  const results = (function* () {
+    count += 1
+    yield failure<number, Error>(new Error('Test error'))
+    count += 1
+    yield value0
+    count += 1
+    yield success<number, Error>(84)
+  })()
+  expect(firstSuccess(results)).to.equal(value0)
+  expect(count).to.equal(2)
+})
+
+test('`firstSuccess()`: If every `Result` is a `Failure` `Result`, returns a `Failure` `Result` containing an array of every contained error', async () => {
+  const error0 = new Error('Test error 0')
+  const value: Result<number | string, [Error, string]> = firstSuccess([
+    failure<number, Error>(error0),
+    failure<string, string>('Test error 1'),
+  ])
+  expect(value.unwrapFailure()).to.deep.equal([error0, 'Test error 1'])
+})
+
+test('`partitionResults()`: Splits the contained values and errors of the provided `Result`s', async () => {
+  const error0 = new Error('Test error 0')
+  const error1 = new Error('Test error 1')
+  const { failures, successes } = partitionResults([
+    success<number, Error>(1),
+    failure<number, Error>(error0),
+    success<number, Error>(2),
+    failure<number, Error>(error1),
+  ])
+  expect(successes).to.deep.equal([1, 2])
+  expect(failures).to.deep.equal([error0, error1])
+})
+
+test('`structResults()`: If every `Result` is a `Success` `Result`, returns a `Success` `Result` containing an object of the contained values', async () => {
+  const value: Result<{ user: string, plan: number }, 'Test error 0' | 'Test error 1'> = structResults({
+    user: success<string, 'Test error 0'>('foo'),
+    plan: success<number, 'Test error 1'>(42),
+  })
+  expect(value.unwrap()).to.deep.equal({ user: 'foo', plan: 42 })
+})
+
+test('`structResults()`: If any `Result` is a `Failure` `Result`, returns a `Failure` `Result` containing the error of the first one', async () => {
+  const error0 = new Error('Test error 0')
+  const error1 = new Error('Test error 1')
+  const value = structResults({
+    user: success<string, Error>('foo'),
+    org: failure<string, Error>(error0),
+    plan: failure<number, Error>(error1),
+  })
+  expect(value.unwrapFailure()).to.equal(error0)
+})
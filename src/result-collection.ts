@@ -0,0 +1,182 @@
+/*
+ *******************************************************************************
+ * Copyright © 2024-present Jonathan Barronville <jonathanmarvens@proton.me>   *
+ *                                                                             *
+ * Licensed under the Apache License, Version 2.0 (the "License"); you may not *
+ * use this file except in compliance with the License.                        *
+ * You may obtain a copy of the License at                                     *
+ *                                                                             *
+ *     http://www.apache.org/licenses/LICENSE-2.0                              *
+ *                                                                             *
+ * Unless required by applicable law or agreed to in writing, software         *
+ * distributed under the License is distributed on an "AS IS" BASIS, WITHOUT   *
+ * WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.            *
+ * See the License for the specific language governing permissions and         *
+ * limitations under the License.                                              *
+ *******************************************************************************
+ */
+
+import assert from './utilities/assert'
+import { failure } from './result'
+import isIterable from './utilities/is-iterable'
+import { isResult } from './result'
+import type Result from './result'
+import type { ResultErrorOf } from './result'
+import type { ResultValueOf } from './result'
+import { success } from './result'
+
+type ResultErrors<TResults extends readonly Result<unknown, NonNullable<unknown>>[]> = {
+  -readonly [TKey in keyof TResults]: ResultErrorOf<TResults[TKey]>
+}
+
+type ResultRecord =
+  Readonly<Record<string, Result<unknown, NonNullable<unknown>>>>
+
+type ResultRecordErrors<TResults extends ResultRecord> = {
+  -readonly [TKey in keyof TResults]?: ResultErrorOf<TResults[TKey]>
+}
+
+type ResultRecordValues<TResults extends ResultRecord> = {
+  -readonly [TKey in keyof TResults]: ResultValueOf<TResults[TKey]>
+}
+
+type ResultValues<TResults extends readonly Result<unknown, NonNullable<unknown>>[]> = {
+  -readonly [TKey in keyof TResults]: ResultValueOf<TResults[TKey]>
+}
+
+/**
+ * If every {@link Result} in {@link results} is a `Success` {@link Result}, returns a `Success` {@link Result} containing an array of the contained values.
+ * Otherwise, returns a `Failure` {@link Result} containing the error of the first `Failure` {@link Result}.
+ *
+ * Iteration stops at the first `Failure` {@link Result}.
+ *
+ * @param results The {@link Result}s to combine.
+ */
+function allResults<const TResults extends readonly Result<unknown, NonNullable<unknown>>[]>(results: TResults): Result<ResultValues<TResults>, ResultErrorOf<TResults[number]>>
+function allResults<TValue, TError extends NonNullable<unknown>>(results: Iterable<Result<TValue, TError>>): Result<TValue[], TError>
+function allResults(results: Iterable<Result<unknown, NonNullable<unknown>>>) {
+  assert(isIterable(results))
+  const values: unknown[] = []
+  for (const result of results) {
+    assert(isResult(result))
+    if (result.isFailure()) {
+      return failure(result.unwrapFailure())
+    }
+    values.push(result.unwrap())
+  }
+  return success(values)
+}
+
+/**
+ * If every {@link Result} in {@link results} is a `Success` {@link Result}, returns a `Success` {@link Result} containing an array of the contained values.
+ * Otherwise, returns a `Failure` {@link Result} containing an array of the errors of every `Failure` {@link Result}.
+ *
+ * @param results The {@link Result}s to combine.
+ */
+function collectFailures<const TResults extends readonly Result<unknown, NonNullable<unknown>>[]>(results: TResults): Result<ResultValues<TResults>, ResultErrorOf<TResults[number]>[]>
+function collectFailures<TValue, TError extends NonNullable<unknown>>(results: Iterable<Result<TValue, TError>>): Result<TValue[], TError[]>
+function collectFailures(results: Iterable<Result<unknown, NonNullable<unknown>>>) {
+  const { failures, successes } = partitionResults(results)
+  return (failures.length > 0) ?
+    failure(failures) :
+    success(successes)
+}
+
+/**
+ * If every {@link Result} in {@link results} is a `Success` {@link Result}, returns a `Success` {@link Result} containing an object with the same keys mapped to the contained values.
+ * Otherwise, returns a `Failure` {@link Result} containing an object mapping the key of every `Failure` {@link Result} to its error.
+ *
+ * @param results The object of {@link Result}s to combine.
+ */
+function collectStructFailures<TResults extends ResultRecord>(results: TResults): Result<ResultRecordValues<TResults>, ResultRecordErrors<TResults>> {
+  assert((typeof results === 'object') && (results !== null))
+  const errors: Record<string, unknown> = {}
+  const values: Record<string, unknown> = {}
+  let isFailure = false
+  for (const [key, result] of Object.entries(results)) {
+    assert(isResult(result))
+    if (result.isSuccess()) {
+      values[key] = result.unwrap()
+    } else {
+      errors[key] = result.unwrapFailure()
+      isFailure = true
+    }
+  }
+  return isFailure ?
+    failure(errors as ResultRecordErrors<TResults>) :
+    success(values as ResultRecordValues<TResults>)
+}
+
+/**
+ * If any {@link Result} in {@link results} is a `Success` {@link Result}, returns the first one.
+ * Otherwise, returns a `Failure` {@link Result} containing an array of the errors of every `Failure` {@link Result}.
+ *
+ * Iteration stops at the first `Success` {@link Result}.
+ *
+ * @param results The {@link Result}s to search.
+ */
+function firstSuccess<const TResults extends readonly Result<unknown, NonNullable<unknown>>[]>(results: TResults): Result<ResultValueOf<TResults[number]>, ResultErrors<TResults>>
+function firstSuccess<TValue, TError extends NonNullable<unknown>>(results: Iterable<Result<TValue, TError>>): Result<TValue, TError[]>
+function firstSuccess(results: Iterable<Result<unknown, NonNullable<unknown>>>) {
+  assert(isIterable(results))
+  const errors: unknown[] = []
+  for (const result of results) {
+    assert(isResult(result))
+    if (result.isSuccess()) {
+      return result
+    }
+    errors.push(result.unwrapFailure())
+  }
+  return failure(errors)
+}
+
+/**
+ * Splits {@link results} into the contained values of every `Success` {@link Result} and the contained errors of every `Failure` {@link Result}, preserving their order.
+ *
+ * @param results The {@link Result}s to split.
+ */
+function partitionResults<TValue, TError extends NonNullable<unknown>>(results: Iterable<Result<TValue, TError>>): { failures: TError[], successes: TValue[] } {
+  assert(isIterable(results))
+  const failures: TError[] = []
+  const successes: TValue[] = []
+  for (const result of results) {
+    assert(isResult(result))
+    if (result.isSuccess()) {
+      successes.push(result.unwrap())
+    } else {
+      failures.push(result.unwrapFailure())
+    }
+  }
+  return {
+    failures,
+    successes,
+  }
+}
+
+/**
+ * If every {@link Result} in {@link results} is a `Success` {@link Result}, returns a `Success` {@link Result} containing an object with the same keys mapped to the contained values.
+ * Otherwise, returns a `Failure` {@link Result} containing the error of the first `Failure` {@link Result}, in key order.
+ *
+ * @param results The object of {@link Result}s to combine.
+ */
+function structResults<TResults extends ResultRecord>(results: TResults): Result<ResultRecordValues<TResults>, ResultErrorOf<TResults[keyof TResults]>> {
+  assert((typeof results === 'object') && (results !== null))
+  const values: Record<string, unknown> = {}
+  for (const [key, result] of Object.entries(results)) {
+    assert(isResult(result))
+    if (result.isFailure()) {
+      return failure(result.unwrapFailure() as ResultErrorOf<TResults[keyof TResults]>)
+    }
+    values[key] = result.unwrap()
+  }
+  return success(values as ResultRecordValues<TResults>)
+}
+
+export {
+  allResults,
+  collectFailures,
+  collectStructFailures,
+  firstSuccess,
+  partitionResults,
+  structResults,
+}
@@ -16,15 +16,80 @@
  *******************************************************************************
  */
 
+import { assertFailure } from './result'
+import { assertSuccess } from './result'
+import ContextError from './error/context'
 import { expect } from 'chai'
 import ExpectationError from './error/expectation'
 import { failure } from './result'
+import { fromThrowable } from './result'
+import { genResult } from './result'
 import ImproperUnwrapError from './error/improper-unwrap'
 import { isResult } from './result'
+import type Maybe from './maybe'
+import nodeJsUtilInspect from './utilities/node-js-util-inspect'
+import { nothing } from './maybe'
+import type Result from './result'
+import { something } from './maybe'
 import { spy } from 'sinon'
 import { success } from './result'
 import { suite } from 'mocha'
+import TaggedError from './error/tagged'
 import { test } from 'mocha'
+import ThrownValueError from './error/thrown-value'
+import { tryCatch } from './result'
+
+class NotFoundError extends TaggedError('NotFound') {}
+
+class TimeoutError extends TaggedError('Timeout') {
+  public readonly ms: number
+
+  public constructor(ms: number) {
+    super(`Timed out after ${ms}ms`)
+    this.ms = ms
+  }
+}
+
+test('`assertFailure()`: If the provided `result` is a `Failure` `Result`, narrows it', async () => {
+  const error = new Error('Test error')
+  const value: Result<number, Error> = failure(error)
+  assertFailure(value)
+  expect(value.error).to.equal(error)
+})
+
+test('`assertFailure()`: If the provided `result` is a `Success` `Result`, throws an `ImproperUnwrapError` describing the contained value', async () => {
+  const value = success(42)
+  expect(function () {
+    assertFailure(value)
+  }).to.throw(ImproperUnwrapError, /Expected a `Failure` value, got Result\{[\s\S]*42/)
+})
+
+test('`assertFailure()`: If the provided `result` is a `Success` `Result` and `message` is provided, throws an `ExpectationError` with it', async () => {
+  const value = success(42)
+  expect(function () {
+    assertFailure(value, 'Test expectation message')
+  }).to.throw(ExpectationError, /^Test expectation message: Result\{[\s\S]*42/)
+})
+
+test('`assertSuccess()`: If the provided `result` is a `Success` `Result`, narrows it', async () => {
+  const value: Result<number, Error> = success(42)
+  assertSuccess(value)
+  expect(value.value).to.equal(42)
+})
+
+test('`assertSuccess()`: If the provided `result` is a `Failure` `Result`, throws an `ImproperUnwrapError` describing the contained error', async () => {
+  const value = failure(new Error('Test error'))
+  expect(function () {
+    assertSuccess(value)
+  }).to.throw(ImproperUnwrapError, /Expected a `Success` value, got Result\{[\s\S]*Test error/)
+})
+
+test('`assertSuccess()`: If the provided `result` is a `Failure` `Result` and `message` is provided, throws an `ExpectationError` with it', async () => {
+  const value = failure(new Error('Test error'))
+  expect(function () {
+    assertSuccess(value, 'Test expectation message')
+  }).to.throw(ExpectationError, /^Test expectation message: Result\{[\s\S]*Test error/)
+})
 
 test('`isResult()`: Checks if the provided `value` is a `Result`', async () => {
   const value0 = null
@@ -45,12 +110,89 @@ test('`failure()`: Creates and returns a new `Failure` `Result` containing the p
   expect(value.isSuccess()).to.be.false
 })
 
+test('`fromThrowable()`: Wraps `f` in a function that returns a `Result` instead of throwing', async () => {
+  const error = new Error('Test error')
+  const f = fromThrowable((value: number) => {
+    if (value < 0) {
+      throw error
+    }
+    return Math.sqrt(value)
+  })
+  expect(f(16).unwrap()).to.equal(4)
+  expect(f(-1).unwrapFailure()).to.equal(error)
+  const g = fromThrowable(JSON.parse, (error) => `${error}`)
+  expect(g('{').isFailureAnd((error) => error.startsWith('SyntaxError'))).to.be.true
+})
+
+test('`genResult()`: If every bound `Result` is a `Success` `Result`, returns a `Success` `Result` containing the return value of the generator', async () => {
+  const value0 = success<number, 'Test error 0'>(21)
+  const value1 = success<string, 'Test error 1'>('foo')
+  const value2: Result<string, 'Test error 0' | 'Test error 1'> = genResult(function* (bind) {
+    const number = yield* bind(value0)
+    const string = yield* bind(value1)
+    return `${string}${number * 2}`
+  })
+  expect(value2.isSuccess()).to.be.true
+  expect(value2.unwrap()).to.equal('foo42')
+})
+
+test('`genResult()`: If a bound `Result` is a `Failure` `Result`, returns a `Failure` `Result` containing its error and stops the generator', async () => {
+  const error = new Error('Test error')
+  const spy0 = spy()
+  const spy1 = spy()
+  const value = genResult(function* (bind) {
+    try {
+      const number = yield* bind(success<number, string>(42))
+      yield* bind(failure<number, Error>(error))
+      spy0()
+      return number
+    } finally {
+      spy1()
+    }
+  })
+  expect(value.isFailure()).to.be.true
+  expect(value.unwrapFailure()).to.equal(error)
+  expect(spy0.called).to.be.false
+  expect(spy1.calledOnce).to.be.true
+})
+
 test('`success()`: Creates and returns a new `Success` `Result` containing the provided `value`', async () => {
   const value = success(42)
   expect(value.isFailure()).to.be.false
   expect(value.isSuccess()).to.be.true
 })
 
+test('`tryCatch()`: If `f` returns, returns a `Success` `Result` containing its return value', async () => {
+  const value = tryCatch(() => 42)
+  expect(value.unwrap()).to.equal(42)
+})
+
+test('`tryCatch()`: If `f` throws an `Error`, returns a `Failure` `Result` containing it', async () => {
+  const error = new Error('Test error')
+  const value = tryCatch(() => {
+    throw error
+  })
+  expect(value.unwrapFailure()).to.equal(error)
+})
+
+test('`tryCatch()`: If `f` throws a non-`Error` value, returns a `Failure` `Result` containing a `ThrownValueError` wrapping it', async () => {
+  for (const thrownValue of [undefined, null, 'foo', 42]) {
+    const value = tryCatch(() => {
+      throw thrownValue
+    })
+    const error = value.unwrapFailure()
+    expect(error).to.be.an.instanceOf(ThrownValueError)
+    expect(error).to.have.property('value', thrownValue)
+  }
+})
+
+test('`tryCatch()`: If `f` throws and `mapError` is provided, returns a `Failure` `Result` containing the result of applying `mapError` to the thrown value', async () => {
+  const value = tryCatch(() => {
+    throw null
+  }, (error) => `Thrown: ${error}`)
+  expect(value.unwrapFailure()).to.equal('Thrown: null')
+})
+
 suite('`Result`', () => {
   test('`Result#and()`: If this is a `Failure` `Result`, returns this `Result`', async () => {
     const error = new Error('Test error')
@@ -82,6 +224,171 @@ suite('`Result`', () => {
     expect(value1.unwrap()).to.equal(84)
   })
 
+  test('`Result#andThen()`: Widens the error type to include the error type of the `Result` returned by `f`', async () => {
+    const value0: Result<number, string> = success(42)
+    const value1: Result<number, string | Error> = value0.andThen((value) => {
+      return failure<number, Error>(new Error(`Test error ${value}`))
+    })
+    expect(value1.unwrapFailure()).to.be.an.instanceOf(Error)
+  })
+
+  test('`Result#catchTag()`: If this is a `Failure` `Result` containing an error tagged with `tag`, returns the result of applying `f` to the contained error', async () => {
+    const value: Result<number, NotFoundError | TimeoutError> = failure(new NotFoundError('Test error'))
+    const recovered: Result<number | string, TimeoutError> = value.catchTag('NotFound', (error) => {
+      return success<string, never>(`${error._tag}: ${error.message}`)
+    })
+    expect(recovered.unwrap()).to.equal('NotFound: Test error')
+  })
+
+  test('`Result#catchTag()`: If this is a `Failure` `Result` containing an error tagged otherwise, returns this `Result`', async () => {
+    const value: Result<number, NotFoundError | TimeoutError> = failure(new TimeoutError(1000))
+    const spy0 = spy(() => success<number, never>(0))
+    expect(value.catchTag('NotFound', spy0)).to.equal(value)
+    expect(spy0.called).to.be.false
+  })
+
+  test('`Result#catchTag()`: If this is a `Success` `Result`, returns this `Result`', async () => {
+    const value: Result<number, NotFoundError> = success(42)
+    expect(value.catchTag('NotFound', () => success<number, never>(0))).to.equal(value)
+  })
+
+  test('`Result#catchTag()`: Treats the `any` error type of a `Result` created by `success()` without type arguments as `never`', async () => {
+    const value: Result<number, NotFoundError | TimeoutError> = failure(new NotFoundError('Test error'))
+    const recovered = value.catchTag('NotFound', () => success(0))
+    const isExact: (<T>() => T extends typeof recovered ? 1 : 2) extends (<T>() => T extends Result<number, TimeoutError> ? 1 : 2) ?
+      true :
+      false = true
+    expect(isExact).to.be.true
+    expect(recovered.unwrap()).to.equal(0)
+  })
+
+  test('`Result#catchTags()`: If this is a `Failure` `Result` containing an error tagged with a key of `cases`, returns the result of applying the matching function to the contained error', async () => {
+    const value: Result<number, NotFoundError | TimeoutError> = failure(new TimeoutError(1000))
+    const recovered: Result<number, string> = value.catchTags({
+      NotFound: () => success<number, never>(0),
+      Timeout: (error) => failure<number, string>(`Timed out after ${error.ms}ms`),
+    })
+    expect(recovered.unwrapFailure()).to.equal('Timed out after 1000ms')
+  })
+
+  test('`Result#catchTags()`: If this is a `Failure` `Result` containing an error not tagged with a key of `cases`, returns this `Result`', async () => {
+    const value: Result<number, Error | NotFoundError> = failure(new Error('Test error'))
+    expect(value.catchTags({
+      NotFound: () => success<number, never>(0),
+    })).to.equal(value)
+  })
+
+  test('`Result#catchTags()`: Treats the `any` error type of a `Result` created by `success()` without type arguments as `never`', async () => {
+    const value: Result<number, NotFoundError | TimeoutError> = failure(new NotFoundError('Test error'))
+    const recovered = value.catchTags({ NotFound: () => success(0) })
+    const isExact: (<T>() => T extends typeof recovered ? 1 : 2) extends (<T>() => T extends Result<number, TimeoutError> ? 1 : 2) ?
+      true :
+      false = true
+    expect(isExact).to.be.true
+    expect(recovered.unwrap()).to.equal(0)
+  })
+
+  test('`Result#compare()`: Orders a `Failure` `Result` before a `Success` `Result`', async () => {
+    expect(failure<number, string>('Test error').compare(success(0))).to.equal(-1)
+    expect(success<number, string>(0).compare(failure('Test error'))).to.equal(1)
+  })
+
+  test('`Result#compare()`: Orders two `Result`s of the same variant by their contents', async () => {
+    expect(success(1).compare(success(2))).to.equal(-1)
+    expect(failure('b').compare(failure('a'))).to.equal(1)
+    const values: Result<number, string>[] = [success(2), failure('b'), success(1), failure('a')]
+    expect(values.sort((value, other) => value.compare(other)).map((value) => `${value.match({ failure: (error) => error, success: (value) => value })}`)).to.deep.equal(['a', 'b', '1', '2'])
+  })
+
+  test('`Result#compare()`: Orders two `Result`s of the same variant with `valueCompare` or `errorCompare` if provided', async () => {
+    const reverse = (value: number, otherValue: number) => otherValue - value
+    expect(success<number, number>(1).compare(success(2), reverse, reverse)).to.equal(1)
+    expect(failure<number, number>(1).compare(failure(2), reverse, reverse)).to.equal(1)
+  })
+
+  test('`Result#compare()`: Orders nested `Maybe`s and `Result`s of different variants by their variants', async () => {
+    expect(success([nothing()]).compare(success([something(1)]))).to.equal(-1)
+    expect(success(failure('Test error')).compare(success(success(1)))).to.equal(-1)
+    expect(failure(something(1)).compare(failure(nothing()))).to.equal(1)
+  })
+
+  test('`Result#context()`: If this is a `Failure` `Result`, returns a `Failure` `Result` containing a `ContextError` caused by the contained error', async () => {
+    const error = new Error('Test error')
+    const value = failure(error).context('Test context')
+    const contextError = value.unwrapFailure()
+    expect(contextError).to.be.an.instanceOf(ContextError)
+    expect(contextError.message).to.equal('Test context')
+    expect(contextError.cause).to.equal(error)
+  })
+
+  test('`Result#context()`: If this is a `Failure` `Result`, the contained `ContextError` is inspected with the stack of its root cause', async () => {
+    const error = new Error('Test error')
+    const contextError = failure(error).context('Test context').unwrapFailure()
+    const inspected = nodeJsUtilInspect(contextError)
+    const [, firstFrame] = (error.stack ?? '').split('\n')
+    expect(inspected).to.include('Caused by:\n    0: Test error\n\nStack backtrace:\n')
+    expect(inspected).to.include(`${firstFrame}`)
+  })
+
+  test('`Result#context()`: If this is a `Success` `Result`, returns this `Result`', async () => {
+    const value = success(42)
+    expect(value.context('Test context')).to.equal(value)
+  })
+
+  test('`Result#equals()`: Compares `Result`s of the same variant by their contents deeply', async () => {
+    expect(success(1).equals(success(1))).to.be.true
+    expect(success({ a: [1, 2] }).equals(success({ a: [1, 2] }))).to.be.true
+    expect(success({ a: [1, 2] }).equals(success({ a: [1, 3] }))).to.be.false
+    expect(failure(new Error('Test error')).equals(failure(new Error('Test error')))).to.be.true
+    expect(failure(new Error('Test error')).equals(failure(new TypeError('Test error')))).to.be.false
+  })
+
+  test('`Result#equals()`: Compares the elements of sets deeply', async () => {
+    expect(success(new Set([[1], [2]])).equals(success(new Set([[2], [1]])))).to.be.true
+    expect(success(new Set([[1], [1]])).equals(success(new Set([[1], [2]])))).to.be.false
+  })
+
+  test('`Result#equals()`: Compares cyclic contents without overflowing the stack', async () => {
+    type Node = { name: string, next?: Node }
+    const node0: Node = { name: 'foo' }
+    node0.next = node0
+    const node1: Node = { name: 'foo' }
+    node1.next = node1
+    const node2: Node = { name: 'bar' }
+    node2.next = node2
+    expect(success(node0).equals(success(node1))).to.be.true
+    expect(success(node0).equals(success(node2))).to.be.false
+  })
+
+  test('`Result#equals()`: Returns `false` for `Result`s of different variants', async () => {
+    expect(success<number, number>(1).equals(failure(1))).to.be.false
+  })
+
+  test('`Result#equals()`: Compares the contents with `valueEq` or `errorEq` if provided', async () => {
+    const valueEq = (value: string, otherValue: string) => value.toLowerCase() === otherValue.toLowerCase()
+    const errorEq = (error: Error, otherError: Error) => error.message === otherError.message
+    expect(success<string, Error>('foo').equals(success('FOO'), valueEq, errorEq)).to.be.true
+    expect(failure<string, Error>(new Error('Test error')).equals(failure(new TypeError('Test error')), valueEq, errorEq)).to.be.true
+  })
+
+  test('`Result#ensure()`: If this is a `Failure` `Result`, returns this `Result`', async () => {
+    const value = failure<number, string>('Test error')
+    const spy0 = spy(() => true)
+    expect(value.ensure(spy0, new Error('Test error'))).to.equal(value)
+    expect(spy0.called).to.be.false
+  })
+
+  test('`Result#ensure()`: If this is a `Success` `Result` whose value satisfies `predicate`, returns this `Result`', async () => {
+    const value = success<number, string>(42)
+    expect(value.ensure((value) => value > 0, new Error('Test error'))).to.equal(value)
+  })
+
+  test('`Result#ensure()`: If this is a `Success` `Result` whose value does not satisfy `predicate`, returns a `Failure` `Result` containing `error`', async () => {
+    const error = new Error('Test error')
+    const value: Result<number, string | Error> = success<number, string>(-42).ensure((value) => value > 0, error)
+    expect(value.unwrapFailure()).to.equal(error)
+  })
+
   test('`Result#expect()`: If this is a `Failure` `Result`, throws an `ExpectationError` with the provided `message`', async () => {
     const error = new Error('Test error')
     const value = failure(error)
@@ -108,6 +415,36 @@ suite('`Result`', () => {
     }).to.throw(ExpectationError).with.property('message', 'Test expectation message')
   })
 
+  test('`Result#filterOrElse()`: If this is a `Failure` `Result`, returns this `Result`', async () => {
+    const value = failure<number, string>('Test error')
+    const spy0 = spy(() => new Error('Test error'))
+    expect(value.filterOrElse(() => false, spy0)).to.equal(value)
+    expect(spy0.called).to.be.false
+  })
+
+  test('`Result#filterOrElse()`: If this is a `Success` `Result` whose value satisfies `predicate`, returns this `Result`', async () => {
+    const value = success<number, string>(42)
+    const spy0 = spy(() => new Error('Test error'))
+    expect(value.filterOrElse((value) => value > 0, spy0)).to.equal(value)
+    expect(spy0.called).to.be.false
+  })
+
+  test('`Result#filterOrElse()`: If this is a `Success` `Result` whose value does not satisfy `predicate`, returns a `Failure` `Result` containing the result of applying `f` to the contained value', async () => {
+    const value: Result<number, string | Error> = success<number, string>(-42).filterOrElse((value) => value > 0, (value) => new Error(`${value} is not positive`))
+    expect(value.unwrapFailure()).to.have.property('message', '-42 is not positive')
+  })
+
+  test('`Result#flatten()`: If this is a `Failure` `Result`, returns this `Result`', async () => {
+    const value = failure<Result<number, Error>, string>('Test error')
+    expect(value.flatten()).to.equal(value)
+  })
+
+  test('`Result#flatten()`: If this is a `Success` `Result`, returns the contained `Result`', async () => {
+    const value0 = failure<number, Error>(new Error('Test error'))
+    const value1: Result<number, string | Error> = success<Result<number, Error>, string>(value0).flatten()
+    expect(value1).to.equal(value0)
+  })
+
   test('`Result#getFailure()`: If this is a `Failure` `Result`, returns a `Something` `Maybe` containing the contained error', async () => {
     const error = new Error('Test error')
     const value = failure(error)
@@ -136,6 +473,29 @@ suite('`Result`', () => {
     expect(maybe.unwrap()).to.equal(42)
   })
 
+  test('`Result#hashCode()`: Returns the same hash code for equal `Result`s', async () => {
+    expect(success({ a: [1, 2] }).hashCode()).to.equal(success({ a: [1, 2] }).hashCode())
+    expect(failure(new Error('Test error')).hashCode()).to.equal(failure(new Error('Test error')).hashCode())
+    expect(success(1).hashCode()).to.not.equal(failure(1).hashCode())
+  })
+
+  test('`Result#hashCode()`: Hashes cyclic contents without overflowing the stack', async () => {
+    type Node = { name: string, next?: Node }
+    const node0: Node = { name: 'foo' }
+    node0.next = node0
+    const node1: Node = { name: 'foo' }
+    node1.next = node1
+    expect(success(node0).hashCode()).to.equal(success(node1).hashCode())
+  })
+
+  test('`Result#hashCode()`: Lets `Result`s be used as keys of a value-keyed map', async () => {
+    const map = new Map<number, Result<number, string>>()
+    for (const value of [success<number, string>(1), failure<number, string>('Test error'), success<number, string>(1)]) {
+      map.set(value.hashCode(), value)
+    }
+    expect(map.size).to.equal(2)
+  })
+
   test('`Result#inspect()`: If this is a `Failure` `Result`, returns this `Result`', async () => {
     const error = new Error('Test error')
     const value = failure(error)
@@ -192,6 +552,27 @@ suite('`Result`', () => {
     })).to.be.false
   })
 
+  test('`Result#isFailureOr()`: If this is a `Failure` `Result`, returns `true`', async () => {
+    const spy0 = spy(() => false)
+    expect(failure<number, string>('Test error').isFailureOr(spy0)).to.be.true
+    expect(spy0.called).to.be.false
+  })
+
+  test('`Result#isFailureOr()`: If this is a `Success` `Result`, returns the result of applying `predicate` to the contained value', async () => {
+    expect(success(42).isFailureOr((value) => value > 0)).to.be.true
+    expect(success(-42).isFailureOr((value) => value > 0)).to.be.false
+  })
+
+  test('`Result#isFailure()`: Narrows this `Result` to a `Failure` `Result`', async () => {
+    const error = new Error('Test error')
+    const value: Result<number, Error> = failure(error)
+    if (value.isFailure()) {
+      expect(value.error).to.equal(error)
+    } else {
+      expect.fail(`Expected a \`Failure\` \`Result\`, got a \`Success\` \`Result\` containing ${value.value}`)
+    }
+  })
+
   test('`Result#isSuccess()`: If this is a `Failure` `Result`, returns `false`', async () => {
     const error = new Error('Test error')
     const value = failure(error)
@@ -203,6 +584,15 @@ suite('`Result`', () => {
     expect(value.isSuccess()).to.be.true
   })
 
+  test('`Result#isSuccess()`: Narrows this `Result` to a `Success` `Result`', async () => {
+    const value: Result<number, Error> = success(42)
+    if (value.isSuccess()) {
+      expect(value.value).to.equal(42)
+    } else {
+      expect.fail(`Expected a \`Success\` \`Result\`, got a \`Failure\` \`Result\` containing ${value.error}`)
+    }
+  })
+
   test('`Result#isSuccessAnd()`: If this is a `Failure` `Result`, returns `false`', async () => {
     const error = new Error('Test error')
     const value = failure(error)
@@ -218,6 +608,50 @@ suite('`Result`', () => {
     })).to.be.true
   })
 
+  test('`Result#isSuccessOr()`: If this is a `Failure` `Result`, returns the result of applying `predicate` to the contained error', async () => {
+    expect(failure('Test error').isSuccessOr((error) => error.startsWith('Test'))).to.be.true
+    expect(failure('Other error').isSuccessOr((error) => error.startsWith('Test'))).to.be.false
+  })
+
+  test('`Result#isSuccessOr()`: If this is a `Success` `Result`, returns `true`', async () => {
+    const spy0 = spy(() => false)
+    expect(success<number, string>(42).isSuccessOr(spy0)).to.be.true
+    expect(spy0.called).to.be.false
+  })
+
+  test('`Result#iter()`: If this is a `Failure` `Result`, yields nothing', async () => {
+    expect([...failure('Test error').iter()]).to.deep.equal([])
+  })
+
+  test('`Result#iter()`: If this is a `Success` `Result`, yields the contained value', async () => {
+    expect([...success(42).iter()]).to.deep.equal([42])
+  })
+
+  test('`Result#kind`: Is `\'failure\'` for a `Failure` `Result` and `\'success\'` for a `Success` `Result`', async () => {
+    const error = new Error('Test error')
+    const values: Result<number, Error>[] = [failure(error), success(42)]
+    const strings = values.map((value) => {
+      switch (value.kind) {
+        case 'failure':
+          return value.error.message
+        case 'success':
+          return `${value.value}`
+      }
+    })
+    expect(strings).to.deep.equal(['Test error', '42'])
+  })
+
+  test('`Result#iterFailure()`: If this is a `Failure` `Result`, yields the contained error', async () => {
+    const error = new Error('Test error')
+    const value = failure(error)
+    expect([...value.iterFailure()]).to.deep.equal([error])
+  })
+
+  test('`Result#iterFailure()`: If this is a `Success` `Result`, yields nothing', async () => {
+    const value = success(42)
+    expect([...value.iterFailure()]).to.deep.equal([])
+  })
+
   test('`Result#map()`: If this is a `Failure` `Result`, returns this `Result`', async () => {
     const error = new Error('Test error')
     const value = failure(error)
@@ -254,6 +688,93 @@ suite('`Result`', () => {
     expect(spy0.called).to.be.false
   })
 
+  test('`Result#mapOr()`: If this is a `Failure` `Result`, returns `defaultValue`', async () => {
+    const spy0 = spy((value: number) => value * 2)
+    expect(failure<number, string>('Test error').mapOr(0, spy0)).to.equal(0)
+    expect(spy0.called).to.be.false
+  })
+
+  test('`Result#mapOr()`: If this is a `Success` `Result`, returns the result of applying `f` to the contained value', async () => {
+    expect(success(42).mapOr(0, (value) => value * 2)).to.equal(84)
+  })
+
+  test('`Result#mapOrElse()`: If this is a `Failure` `Result`, returns the result of applying `defaultF` to the contained error', async () => {
+    expect(failure<number, string>('Test error').mapOrElse((error) => error.length, (value) => value * 2)).to.equal(10)
+  })
+
+  test('`Result#mapOrElse()`: If this is a `Success` `Result`, returns the result of applying `f` to the contained value', async () => {
+    const spy0 = spy((error: string) => error.length)
+    expect(success<number, string>(42).mapOrElse(spy0, (value) => value * 2)).to.equal(84)
+    expect(spy0.called).to.be.false
+  })
+
+  test('`Result#match()`: If this is a `Failure` `Result`, returns the result of applying `cases.failure` to the contained error', async () => {
+    const error = new Error('Test error')
+    const value = failure<number, Error>(error)
+    const string: string | number = value.match({
+      failure: (error) => error.message,
+      success: (value) => value * 2,
+    })
+    expect(string).to.equal('Test error')
+  })
+
+  test('`Result#match()`: If this is a `Success` `Result`, returns the result of applying `cases.success` to the contained value', async () => {
+    const value = success<number, Error>(42)
+    expect(value.match({
+      failure: (error) => error.message,
+      success: (value) => value * 2,
+    })).to.equal(84)
+  })
+
+  test('`Result#matchBy()`: If this is a `Failure` `Result`, returns the result of applying the function named by the contained error\'s `key` property to the contained error', async () => {
+    type TestError =
+      | { type: 'NotFound', id: string }
+      | { type: 'Invalid', reasons: string[] }
+    const value0 = failure<number, TestError>({ type: 'NotFound', id: 'foo' })
+    const value1 = failure<number, TestError>({ type: 'Invalid', reasons: ['bar', 'baz'] })
+    const cases = {
+      failure: {
+        Invalid: (error: { reasons: string[] }) => error.reasons.length,
+        NotFound: (error: { id: string }) => `Missing ${error.id}`,
+      },
+      success: (value: number) => value > 0,
+    }
+    const string: string | number | boolean = value0.matchBy('type', cases)
+    expect(string).to.equal('Missing foo')
+    expect(value1.matchBy('type', cases)).to.equal(2)
+  })
+
+  test('`Result#matchBy()`: Infers the union of the return types of inline cases', async () => {
+    type TestError =
+      | { type: 'NotFound', id: string }
+      | { type: 'Invalid', reasons: string[] }
+    const value = failure<number, TestError>({ type: 'Invalid', reasons: ['bar', 'baz'] })
+    const returned = value.matchBy('type', {
+      failure: {
+        Invalid: (error) => error.reasons.length,
+        NotFound: (error) => `Missing ${error.id}`,
+      },
+      success: (value) => value > 0,
+    })
+    const isExact: (<T>() => T extends typeof returned ? 1 : 2) extends (<T>() => T extends boolean | number | string ? 1 : 2) ?
+      true :
+      false = true
+    expect(isExact).to.be.true
+    expect(returned).to.equal(2)
+  })
+
+  test('`Result#matchBy()`: If this is a `Success` `Result`, returns the result of applying `cases.success` to the contained value', async () => {
+    const value = success<number, { type: 'NotFound' }>(42)
+    const spy0 = spy()
+    expect(value.matchBy('type', {
+      failure: {
+        NotFound: spy0,
+      },
+      success: (value) => value * 2,
+    })).to.equal(84)
+    expect(spy0.called).to.be.false
+  })
+
   test('`Result#or()`: If this is a `Failure` `Result`, returns `other`', async () => {
     const error = new Error('Test error')
     const value = failure(error)
@@ -267,6 +788,75 @@ suite('`Result`', () => {
     expect(value.or(other)).to.equal(value)
   })
 
+  test('`Result#orElse()`: If this is a `Failure` `Result`, returns the result of applying `f` to the contained error', async () => {
+    const value: Result<number, Error> = failure<number, string>('Test error').orElse((error) => {
+      return failure<number, Error>(new Error(error))
+    })
+    expect(value.unwrapFailure()).to.have.property('message', 'Test error')
+    expect(failure<number, string>('Test error').orElse((error) => success<number, never>(error.length)).unwrap()).to.equal(10)
+  })
+
+  test('`Result#orElse()`: If this is a `Success` `Result`, returns this `Result`', async () => {
+    const value = success<number, string>(42)
+    const spy0 = spy(() => success<number, never>(0))
+    expect(value.orElse(spy0)).to.equal(value)
+    expect(spy0.called).to.be.false
+  })
+
+  test('`Result#toJSON()`: If this is a `Failure` `Result`, returns its tagged JSON representation containing the contained error', async () => {
+    const value = failure('Test error')
+    expect(value.toJSON()).to.deep.equal({ $eaux: 'Result', error: 'Test error', kind: 'failure' })
+    expect(JSON.stringify(value)).to.equal('{"$eaux":"Result","error":"Test error","kind":"failure"}')
+  })
+
+  test('`Result#toJSON()`: If this is a `Success` `Result`, returns its tagged JSON representation containing the contained value', async () => {
+    const value = success(success(42))
+    expect(JSON.stringify(value)).to.equal('{"$eaux":"Result","kind":"success","value":{"$eaux":"Result","kind":"success","value":42}}')
+  })
+
+  test('`Result#toString()`: If this is a `Failure` `Result` containing a `ContextError`, renders its whole chain of causes', async () => {
+    const value = failure(new Error('Test error'))
+      .context('Test inner context')
+      .context('Test outer context')
+    const chain = [
+      'ContextError: Test outer context',
+      '',
+      'Caused by:',
+      '    0: Test inner context',
+      '    1: Test error',
+    ].join('\n')
+    expect(`${value.unwrapFailure()}`).to.equal(chain)
+    expect(`${value}`).to.include(chain.split('\n').join('\n    '))
+    expect(nodeJsUtilInspect(value)).to.include(chain.split('\n').join('\n    '))
+  })
+
+  test('`Result#transpose()`: If this is a `Failure` `Result`, returns a `Something` `Maybe` containing a `Failure` `Result`', async () => {
+    const value = failure<Maybe<number>, string>('Test error').transpose()
+    expect(value.unwrap().unwrapFailure()).to.equal('Test error')
+  })
+
+  test('`Result#transpose()`: If this is a `Success` `Result` containing a `Nothing` `Maybe`, returns a `Nothing` `Maybe`', async () => {
+    const value = success<Maybe<number>, string>(nothing()).transpose()
+    expect(value).to.equal(nothing())
+  })
+
+  test('`Result#transpose()`: If this is a `Success` `Result` containing a `Something` `Maybe`, returns a `Something` `Maybe` containing a `Success` `Result`', async () => {
+    const value: Maybe<Result<number, string>> = success<Maybe<number>, string>(something(42)).transpose()
+    expect(value.unwrap().unwrap()).to.equal(42)
+  })
+
+  test('`Result#transpose()`: If this is a `Success` `Result` containing anything but a `Maybe`, throws', async () => {
+    const value = success<Maybe<number>, string>([1] as unknown as Maybe<number>)
+    expect(function () {
+      value.transpose()
+    }).to.throw()
+  })
+
+  test('`Result#transpose()`: Is undone by `Maybe#transpose()`', async () => {
+    const value = failure<Maybe<number>, string>('Test error')
+    expect(value.transpose().transpose().equals(value)).to.be.true
+  })
+
   test('`Result#unwrap()`: If this is a `Failure` `Result`, throws an `ImproperUnwrapError`', async () => {
     const error = new Error('Test error')
     const value = failure(error)
@@ -292,4 +882,71 @@ suite('`Result`', () => {
       value.unwrapFailure()
     }).to.throw(ImproperUnwrapError)
   })
+
+  test('`Result#unwrapFailureOr()`: If this is a `Failure` `Result`, returns the contained error', async () => {
+    expect(failure('Test error').unwrapFailureOr('Default error')).to.equal('Test error')
+  })
+
+  test('`Result#unwrapFailureOr()`: If this is a `Success` `Result`, returns `defaultError`', async () => {
+    expect(success<number, string>(42).unwrapFailureOr('Default error')).to.equal('Default error')
+  })
+
+  test('`Result#unwrapOr()`: If this is a `Failure` `Result`, returns `defaultValue`', async () => {
+    expect(failure<number, string>('Test error').unwrapOr(0)).to.equal(0)
+  })
+
+  test('`Result#unwrapOr()`: If this is a `Success` `Result`, returns the contained value', async () => {
+    expect(success(42).unwrapOr(0)).to.equal(42)
+  })
+
+  test('`Result#unwrapOrElse()`: If this is a `Failure` `Result`, returns the result of applying `f` to the contained error', async () => {
+    expect(failure<number, string>('Test error').unwrapOrElse((error) => error.length)).to.equal(10)
+  })
+
+  test('`Result#unwrapOrElse()`: If this is a `Success` `Result`, returns the contained value', async () => {
+    const spy0 = spy(() => 0)
+    expect(success(42).unwrapOrElse(spy0)).to.equal(42)
+    expect(spy0.called).to.be.false
+  })
+
+  test('`Result#withContext()`: If this is a `Failure` `Result`, returns a `Failure` `Result` containing a `ContextError` with the result of applying `f` to the contained error', async () => {
+    const error = new Error('Test error')
+    const value = failure(error).withContext((error) => `Test context for ${error.message}`)
+    const contextError = value.unwrapFailure()
+    expect(contextError.message).to.equal('Test context for Test error')
+    expect(contextError.cause).to.equal(error)
+  })
+
+  test('`Result#withContext()`: If this is a `Success` `Result`, returns this `Result` without calling `f`', async () => {
+    const value = success(42)
+    const spy0 = spy(() => 'Test context')
+    expect(value.withContext(spy0)).to.equal(value)
+    expect(spy0.called).to.be.false
+  })
+
+  test('`Result#zip()`: If both `Result`s are `Success` `Result`s, returns a `Success` `Result` containing a tuple of both contained values', async () => {
+    const value: Result<[number, string], string | Error> = success<number, string>(42).zip(success<string, Error>('foo'))
+    expect(value.unwrap()).to.deep.equal([42, 'foo'])
+  })
+
+  test('`Result#zip()`: If this is a `Failure` `Result`, returns this `Result`', async () => {
+    const value = failure<number, string>('Test error')
+    expect(value.zip(failure<string, string>('Other error'))).to.equal(value)
+  })
+
+  test('`Result#zip()`: If this is a `Success` `Result` and `other` is a `Failure` `Result`, returns `other`', async () => {
+    const other = failure<string, string>('Test error')
+    expect(success<number, string>(42).zip(other)).to.equal(other)
+  })
+
+  test('`Result#[Symbol.iterator]()`: If this is a `Failure` `Result`, yields nothing', async () => {
+    const value = failure(new Error('Test error'))
+    expect([...value]).to.deep.equal([])
+  })
+
+  test('`Result#[Symbol.iterator]()`: If this is a `Success` `Result`, yields the contained value', async () => {
+    const value = success(42)
+    expect([...value]).to.deep.equal([42])
+    expect(Array.from(value)).to.deep.equal([42])
+  })
 })
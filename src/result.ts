@@ -17,22 +17,120 @@
  */
 
 import assert from './utilities/assert'
+import compareValues from './utilities/compare-values'
+import ContextError from './error/context'
 import { customSymbol as customNodeJsUtilInspectSymbol } from './utilities/node-js-util-inspect'
+import deepEqual from './utilities/deep-equal'
+import encodeError from './utilities/encode-error'
+import type { ErrorTagOf } from './error/tagged'
+import type { ExcludeTagged } from './error/tagged'
 import ExpectationError from './error/expectation'
+import type { ExtractTagged } from './error/tagged'
+import hashValue from './utilities/hash-value'
+import hasTag from './utilities/has-tag'
 import ImproperUnwrapError from './error/improper-unwrap'
+import { isMaybe } from './maybe'
+import type { JsonEncoded } from './utilities/encode-error'
+import makeAssertionError from './utilities/make-assertion-error'
 import type Maybe from './maybe'
 import nodeJsUtilInspect from './utilities/node-js-util-inspect'
 import { nothing } from './maybe'
 import { something } from './maybe'
+import toError from './utilities/to-error'
 import UnreachableCodeError from './error/unreachable-code'
 
+/**
+ * A `Failure` {@link Result}, which contains an error.
+ */
+type Failure<TValue, TError extends NonNullable<unknown>> =
+  & AbstractResult<TValue, TError>
+  & {
+    readonly error: TError,
+    readonly kind: 'failure',
+  }
+
 /**
  * A robust abstraction for handling operations that can either succeed or fail.
+ *
+ * A {@link Result} is either a {@link Success} or a {@link Failure}, which can be told apart by {@link AbstractResult.kind}.
+ */
+type Result<TValue, TError extends NonNullable<unknown>> =
+  | Failure<TValue, TError>
+  | Success<TValue, TError>
+
+/**
+ * A `Success` {@link Result}, which contains a value.
+ */
+type Success<TValue, TError extends NonNullable<unknown>> =
+  & AbstractResult<TValue, TError>
+  & {
+    readonly kind: 'success',
+    readonly value: TValue,
+  }
+
+type ResultCatchTagsCases<TError> = {
+  [TTag in ErrorTagOf<TError>]?: (error: ExtractTagged<TError, TTag>) => Result<unknown, NonNullable<unknown>>
+}
+
+type ResultCatchTagsError<TCases> =
+  {
+    [TTag in keyof TCases]-?: TCases[TTag] extends (...args: never[]) => infer TResult ?
+      ResultRecoveredError<ResultErrorOf<TResult>> :
+      never
+  }[keyof TCases]
+
+type ResultCatchTagsValue<TCases> =
+  {
+    [TTag in keyof TCases]-?: TCases[TTag] extends (...args: never[]) => infer TResult ?
+      ResultValueOf<TResult> :
+      never
+  }[keyof TCases]
+
+type ResultJson<TValue, TError> =
+  | {
+    readonly $eaux: 'Result',
+    readonly error: JsonEncoded<TError>,
+    readonly kind: 'failure',
+  }
+  | {
+    readonly $eaux: 'Result',
+    readonly kind: 'success',
+    readonly value: JsonEncoded<TValue>,
+  }
+
+type ResultMatchByFailureCases<TError, TKey extends keyof TError> = {
+  [TTag in TError[TKey] & PropertyKey]: (error: Extract<TError, Readonly<Record<TKey, TTag>>>) => unknown
+}
+
+type ResultMatchByFailureReturn<TFailureCases> =
+  TFailureCases[keyof TFailureCases] extends (...args: never[]) => infer TReturn ?
+    TReturn :
+    never
+
+type ResultMatchCases<TValue, TError, TFailureReturn, TSuccessReturn> = {
+  failure: (error: TError) => TFailureReturn,
+  success: (value: TValue) => TSuccessReturn,
+}
+
+/**
+ * The error type of a {@link Result} returned to recover from an error, where `any` and `NonNullable<unknown>` are treated as `never`.
+ *
+ * A {@link Result} created by {@link success} without type arguments has the error type `any`, or `NonNullable<unknown>` when it is inferred from the constraint of the recovery functions, neither of which says anything about the errors it may contain.
  */
-abstract class Result<TValue, TError extends NonNullable<unknown>> {
+type ResultRecoveredError<TError> =
+  0 extends (1 & TError) ?
+    never :
+    [NonNullable<unknown>] extends [TError] ?
+      never :
+      TError
+
+/**
+ * The base class of every {@link Result}, which implements the operations shared by both variants.
+ */
+abstract class AbstractResult<TValue, TError extends NonNullable<unknown>> {
   protected constructor() { }
 
-  #convertToString(toStringFunction: (value: unknown) => string) {
+  #convertToString(toStringFunction: (value: unknown) => string): string {
     if (this.isSuccess()) {
       const value = this.unwrap()
       const valueString = toStringFunction(value)
@@ -66,14 +164,25 @@ Result{
     }
   }
 
+  /**
+   * The discriminant of this {@link Result}: `'success'` for a `Success` {@link Result} and `'failure'` for a `Failure` {@link Result}.
+   */
+  public abstract get kind(): 'failure' | 'success'
+
   protected abstract _and<TOtherValue>(other: Result<TOtherValue, TError>): Result<TOtherValue, TError>
 
-  protected abstract _andThen<TOtherValue>(f: (value: TValue) => Result<TOtherValue, TError>): Result<TOtherValue, TError>
+  protected abstract _andThen<TOtherValue, TOtherError extends NonNullable<unknown>>(f: (value: TValue) => Result<TOtherValue, TOtherError>): Result<TOtherValue, TError | TOtherError>
+
+  protected abstract _catchTags(cases: Readonly<Record<string, unknown>>): Result<unknown, NonNullable<unknown>>
+
+  protected abstract _ensure<TOtherError extends NonNullable<unknown>>(predicate: (value: TValue) => boolean, error: TOtherError): Result<TValue, TError | TOtherError>
 
   protected abstract _expect(message: string): TValue
 
   protected abstract _expectFailure(message: string): TError
 
+  protected abstract _filterOrElse<TOtherError extends NonNullable<unknown>>(predicate: (value: TValue) => boolean, f: (value: TValue) => TOtherError): Result<TValue, TError | TOtherError>
+
   protected abstract _getFailure(): Maybe<TError>
 
   protected abstract _getSuccess(): Maybe<TValue>
@@ -82,31 +191,57 @@ Result{
 
   protected abstract _inspectFailure(f: (error: TError) => void): Result<TValue, TError>
 
-  protected abstract _isFailure(): boolean
+  protected abstract _isFailure(): this is Failure<TValue, TError>
 
   protected abstract _isFailureAnd(predicate: (error: TError) => boolean): boolean
 
-  protected abstract _isSuccess(): boolean
+  protected abstract _isFailureOr(predicate: (value: TValue) => boolean): boolean
+
+  protected abstract _isSuccess(): this is Success<TValue, TError>
 
   protected abstract _isSuccessAnd(predicate: (value: TValue) => boolean): boolean
 
+  protected abstract _isSuccessOr(predicate: (error: TError) => boolean): boolean
+
+  protected abstract _iter(): Generator<TValue, void, undefined>
+
+  protected abstract _iterFailure(): Generator<TError, void, undefined>
+
   protected abstract _map<TNewValue>(f: (value: TValue) => TNewValue): Result<TNewValue, TError>
 
   protected abstract _mapFailure<TNewError extends NonNullable<unknown>>(f: (error: TError) => TNewError): Result<TValue, TNewError>
 
+  protected abstract _mapOr<TNewValue>(defaultValue: TNewValue, f: (value: TValue) => TNewValue): TNewValue
+
+  protected abstract _mapOrElse<TNewValue>(defaultF: (error: TError) => TNewValue, f: (value: TValue) => TNewValue): TNewValue
+
+  protected abstract _match<TFailureReturn, TSuccessReturn>(cases: ResultMatchCases<TValue, TError, TFailureReturn, TSuccessReturn>): TFailureReturn | TSuccessReturn
+
   protected abstract _or<TOtherError extends NonNullable<unknown>>(other: Result<TValue, TOtherError>): Result<TValue, TOtherError>
 
+  protected abstract _orElse<TOtherError extends NonNullable<unknown>>(f: (error: TError) => Result<TValue, TOtherError>): Result<TValue, TOtherError>
+
+  protected abstract _toJSON(): ResultJson<TValue, TError>
+
   protected abstract _unwrap(): TValue
 
   protected abstract _unwrapFailure(): TError
 
+  protected abstract _unwrapFailureOr(defaultError: TError): TError
+
+  protected abstract _unwrapOr(defaultValue: TValue): TValue
+
+  protected abstract _unwrapOrElse(f: (error: TError) => TValue): TValue
+
+  protected abstract _zip<TOtherValue, TOtherError extends NonNullable<unknown>>(other: Result<TOtherValue, TOtherError>): Result<[TValue, TOtherValue], TError | TOtherError>
+
   /**
    * If this is a `Success` {@link Result}, returns {@link other}.
    * If this is a `Failure` {@link Result}, returns this {@link Result}.
    *
    * @param other The {@link Result} to return if this is a `Success` {@link Result}.
    */
-  public and<TOtherValue>(other: Result<TOtherValue, TError>) {
+  public and<TOtherValue>(other: Result<TOtherValue, TError>): Result<TOtherValue, TError> {
     assert(isResult(other))
     return this._and(other)
   }
@@ -115,13 +250,125 @@ Result{
    * If this is a `Success` {@link Result}, returns the result of applying {@link f} to the contained value.
    * If this is a `Failure` {@link Result}, returns this {@link Result}.
    *
+   * The error type of the returned {@link Result} is widened to include the error type of the {@link Result} returned by {@link f}.
+   *
    * @param f The function to apply to the contained value.
    */
-  public andThen<TOtherValue>(f: (value: TValue) => Result<TOtherValue, TError>) {
+  public andThen<TOtherValue>(f: (value: TValue) => Result<TOtherValue, TError>): Result<TOtherValue, TError>
+  public andThen<TOtherValue, TOtherError extends NonNullable<unknown>>(f: (value: TValue) => Result<TOtherValue, TOtherError>): Result<TOtherValue, TError | TOtherError>
+  public andThen<TOtherValue, TOtherError extends NonNullable<unknown>>(f: (value: TValue) => Result<TOtherValue, TOtherError>): Result<TOtherValue, TError | TOtherError> {
     assert(typeof f === 'function')
     return this._andThen(f)
   }
 
+  /**
+   * If this is a `Failure` {@link Result} containing an error whose `_tag` property is {@link tag}, returns the result of applying {@link f} to the contained error.
+   * Otherwise, returns this {@link Result}.
+   *
+   * The errors tagged with {@link tag} are removed from the error type of the returned {@link Result}, in favor of the error type of the {@link Result} returned by {@link f}.
+   *
+   * @param tag The tag of the errors to recover from.
+   * @param f The function to apply to the contained error.
+   */
+  public catchTag<TTag extends ErrorTagOf<TError>, TOtherValue = TValue, TOtherError extends NonNullable<unknown> = never>(tag: TTag, f: (error: ExtractTagged<TError, TTag>) => Result<TOtherValue, TOtherError>): Result<TValue | TOtherValue, ExcludeTagged<TError, TTag> | ResultRecoveredError<TOtherError>> {
+    assert(typeof tag === 'string')
+    assert(typeof f === 'function')
+    return this._catchTags({ [tag]: f }) as Result<TValue | TOtherValue, ExcludeTagged<TError, TTag> | ResultRecoveredError<TOtherError>>
+  }
+
+  /**
+   * If this is a `Failure` {@link Result} containing an error whose `_tag` property is a key of {@link cases}, returns the result of applying the function in {@link cases} named by that tag to the contained error.
+   * Otherwise, returns this {@link Result}.
+   *
+   * The errors tagged with a key of {@link cases} are removed from the error type of the returned {@link Result}, in favor of the error types of the {@link Result}s returned by the functions in {@link cases}.
+   *
+   * @param cases The functions to apply to the contained error, keyed by the tags of the errors to recover from.
+   */
+  public catchTags<TCases extends ResultCatchTagsCases<TError>>(cases: TCases): Result<TValue | ResultCatchTagsValue<TCases>, ExcludeTagged<TError, keyof TCases & string> | ResultCatchTagsError<TCases>> {
+    assert((typeof cases === 'object') && (cases !== null))
+    return this._catchTags(cases) as Result<TValue | ResultCatchTagsValue<TCases>, ExcludeTagged<TError, keyof TCases & string> | ResultCatchTagsError<TCases>>
+  }
+
+  /**
+   * Compares this {@link Result} with {@link other}, returning a negative number if this comes first, a positive number if {@link other} comes first, and `0` otherwise.
+   *
+   * A `Failure` {@link Result} comes before a `Success` {@link Result}.
+   * Two `Success` {@link Result}s are ordered by {@link valueCompare} applied to their contained values, and two `Failure` {@link Result}s by {@link errorCompare} applied to their contained errors.
+   *
+   * By default, numbers, bigints, strings, booleans and dates are ordered naturally, arrays lexicographically, and nested {@link Maybe}s and {@link Result}s by their own `compare()`; other values compare as `0`.
+   *
+   * @param other The {@link Result} to compare this {@link Result} with.
+   * @param valueCompare The function to compare the contained values with.
+   * @param errorCompare The function to compare the contained errors with.
+   */
+  public compare(other: Result<TValue, TError>, valueCompare: (value: TValue, otherValue: TValue) => number = compareValues, errorCompare: (error: TError, otherError: TError) => number = compareValues): number {
+    assert(isResult(other))
+    assert(typeof valueCompare === 'function')
+    assert(typeof errorCompare === 'function')
+    let order: number
+    if (this.isSuccess() && other.isSuccess()) {
+      order = valueCompare(this.value, other.value)
+    } else if (this.isFailure() && other.isFailure()) {
+      order = errorCompare(this.error, other.error)
+    } else {
+      order = this.isSuccess() ?
+        1 :
+        -1
+    }
+    assert(typeof order === 'number')
+    return Math.sign(order)
+  }
+
+  /**
+   * If this is a `Success` {@link Result}, returns this {@link Result}.
+   * If this is a `Failure` {@link Result}, returns a `Failure` {@link Result} containing a {@link ContextError} with the provided {@link message}, whose `cause` is the contained error.
+   *
+   * @param message The message describing what was being done when the contained error occurred.
+   */
+  public context(message: string): Result<TValue, ContextError> {
+    assert(typeof message === 'string')
+    return this._mapFailure((error) => new ContextError(message, error))
+  }
+
+  /**
+   * Returns `true` if this {@link Result} and {@link other} are the same variant and their contents are equal.
+   *
+   * Two `Success` {@link Result}s are equal if {@link valueEq} returns `true` for their contained values, and two `Failure` {@link Result}s if {@link errorEq} returns `true` for their contained errors.
+   *
+   * By default, contents are compared deeply: arrays, plain objects, maps (whose keys are matched with `Map#has()`), sets, dates and errors are compared by their contents, cyclic references included, and nested {@link Maybe}s and {@link Result}s by their own `equals()`.
+   *
+   * @param other The {@link Result} to compare this {@link Result} with.
+   * @param valueEq The function to compare the contained values with.
+   * @param errorEq The function to compare the contained errors with.
+   */
+  public equals(other: Result<TValue, TError>, valueEq: (value: TValue, otherValue: TValue) => boolean = deepEqual, errorEq: (error: TError, otherError: TError) => boolean = deepEqual): boolean {
+    assert(isResult(other))
+    assert(typeof valueEq === 'function')
+    assert(typeof errorEq === 'function')
+    let isEqual = false
+    if (this.isSuccess() && other.isSuccess()) {
+      isEqual = valueEq(this.value, other.value)
+    } else if (this.isFailure() && other.isFailure()) {
+      isEqual = errorEq(this.error, other.error)
+    }
+    assert(typeof isEqual === 'boolean')
+    return isEqual
+  }
+
+  /**
+   * If this is a `Success` {@link Result}, returns this {@link Result} if the contained value satisfies the provided {@link predicate}, or a `Failure` {@link Result} containing the provided {@link error} otherwise.
+   * If this is a `Failure` {@link Result}, returns this {@link Result}.
+   *
+   * @param predicate The predicate to apply to the contained value.
+   * @param error The error to contain if the contained value does not satisfy {@link predicate}.
+   */
+  public ensure<TOtherError extends NonNullable<unknown>>(predicate: (value: TValue) => boolean, error: TOtherError) {
+    assert(typeof predicate === 'function')
+    assert(typeof error !== 'undefined')
+    assert(error !== null)
+    return this._ensure(predicate, error)
+  }
+
   /**
    * If this is a `Success` {@link Result}, returns the contained value.
    * If this is a `Failure` {@link Result}, throws an {@link ExpectationError} with the provided {@link message}.
@@ -144,6 +391,29 @@ Result{
     return this._expectFailure(message)
   }
 
+  /**
+   * If this is a `Success` {@link Result}, returns this {@link Result} if the contained value satisfies the provided {@link predicate}, or a `Failure` {@link Result} containing the result of applying {@link f} to the contained value otherwise.
+   * If this is a `Failure` {@link Result}, returns this {@link Result}.
+   *
+   * @param predicate The predicate to apply to the contained value.
+   * @param f The function that returns the error to contain if the contained value does not satisfy {@link predicate}.
+   */
+  public filterOrElse<TOtherError extends NonNullable<unknown>>(predicate: (value: TValue) => boolean, f: (value: TValue) => TOtherError) {
+    assert(typeof predicate === 'function')
+    assert(typeof f === 'function')
+    return this._filterOrElse(predicate, f)
+  }
+
+  /**
+   * If this is a `Success` {@link Result} containing a {@link Result}, returns the contained {@link Result}.
+   * If this is a `Failure` {@link Result}, returns this {@link Result}.
+   *
+   * The error type of the returned {@link Result} is the union of the error types of the outer and inner {@link Result}s.
+   */
+  public flatten<TInnerValue, TInnerError extends NonNullable<unknown>, TThisError extends NonNullable<unknown>>(this: Result<Result<TInnerValue, TInnerError>, TThisError>): Result<TInnerValue, TInnerError | TThisError> {
+    return this.andThen((value) => value)
+  }
+
   /**
    * If this is a `Success` {@link Result}, returns a `Nothing` {@link Maybe}.
    * If this is a `Failure` {@link Result}, returns a `Something` {@link Maybe} containing the contained error.
@@ -160,6 +430,16 @@ Result{
     return this._getSuccess()
   }
 
+  /**
+   * Returns a hash code for this {@link Result}, which is the same for any two {@link Result}s that are equal by the default {@link equals}.
+   */
+  public hashCode() {
+    return this._match({
+      failure: (error) => hashValue(['Result', 'failure', error]),
+      success: (value) => hashValue(['Result', 'success', value]),
+    })
+  }
+
   /**
    * If this is a `Success` {@link Result}, applies {@link f} to the contained value and returns this {@link Result}.
    * If this is a `Failure` {@link Result}, returns this {@link Result}.
@@ -186,7 +466,7 @@ Result{
    * If this is a `Success` {@link Result}, returns `false`.
    * If this is a `Failure` {@link Result}, returns `true`.
    */
-  public isFailure() {
+  public isFailure(): this is Failure<TValue, TError> {
     return this._isFailure()
   }
 
@@ -201,11 +481,22 @@ Result{
     return this._isFailureAnd(predicate)
   }
 
+  /**
+   * If this is a `Success` {@link Result}, returns the result of applying {@link predicate} to the contained value.
+   * If this is a `Failure` {@link Result}, returns `true`.
+   *
+   * @param predicate The predicate to apply to the contained value.
+   */
+  public isFailureOr(predicate: (value: TValue) => boolean) {
+    assert(typeof predicate === 'function')
+    return this._isFailureOr(predicate)
+  }
+
   /**
    * If this is a `Success` {@link Result}, returns `true`.
    * If this is a `Failure` {@link Result}, returns `false`.
    */
-  public isSuccess() {
+  public isSuccess(): this is Success<TValue, TError> {
     return this._isSuccess()
   }
 
@@ -220,6 +511,33 @@ Result{
     return this._isSuccessAnd(predicate)
   }
 
+  /**
+   * If this is a `Success` {@link Result}, returns `true`.
+   * If this is a `Failure` {@link Result}, returns the result of applying {@link predicate} to the contained error.
+   *
+   * @param predicate The predicate to apply to the contained error.
+   */
+  public isSuccessOr(predicate: (error: TError) => boolean) {
+    assert(typeof predicate === 'function')
+    return this._isSuccessOr(predicate)
+  }
+
+  /**
+   * If this is a `Success` {@link Result}, yields the contained value.
+   * If this is a `Failure` {@link Result}, yields nothing.
+   */
+  public iter(): Generator<TValue, void, undefined> {
+    return this._iter()
+  }
+
+  /**
+   * If this is a `Success` {@link Result}, yields nothing.
+   * If this is a `Failure` {@link Result}, yields the contained error.
+   */
+  public iterFailure(): Generator<TError, void, undefined> {
+    return this._iterFailure()
+  }
+
   /**
    * If this is a `Success` {@link Result}, returns a `Success` {@link Result} containing the result of applying {@link f} to the contained value.
    * If this is a `Failure` {@link Result}, returns this {@link Result}.
@@ -242,21 +560,123 @@ Result{
     return this._mapFailure(f)
   }
 
+  /**
+   * If this is a `Success` {@link Result}, returns the result of applying {@link f} to the contained value.
+   * If this is a `Failure` {@link Result}, returns the provided {@link defaultValue}.
+   *
+   * @param defaultValue The value to return if this is a `Failure` {@link Result}.
+   * @param f The function to apply to the contained value.
+   */
+  public mapOr<TNewValue>(defaultValue: TNewValue, f: (value: TValue) => TNewValue) {
+    assert(typeof f === 'function')
+    return this._mapOr(defaultValue, f)
+  }
+
+  /**
+   * If this is a `Success` {@link Result}, returns the result of applying {@link f} to the contained value.
+   * If this is a `Failure` {@link Result}, returns the result of applying {@link defaultF} to the contained error.
+   *
+   * @param defaultF The function to apply to the contained error.
+   * @param f The function to apply to the contained value.
+   */
+  public mapOrElse<TNewValue>(defaultF: (error: TError) => TNewValue, f: (value: TValue) => TNewValue) {
+    assert(typeof defaultF === 'function')
+    assert(typeof f === 'function')
+    return this._mapOrElse(defaultF, f)
+  }
+
+  /**
+   * If this is a `Success` {@link Result}, returns the result of applying `cases.success` to the contained value.
+   * If this is a `Failure` {@link Result}, returns the result of applying `cases.failure` to the contained error.
+   *
+   * @param cases The functions to apply to the contained value or error.
+   */
+  public match<TFailureReturn, TSuccessReturn>(cases: ResultMatchCases<TValue, TError, TFailureReturn, TSuccessReturn>) {
+    assert((typeof cases === 'object') && (cases !== null))
+    assert(typeof cases.failure === 'function')
+    assert(typeof cases.success === 'function')
+    return this._match(cases)
+  }
+
+  /**
+   * If this is a `Success` {@link Result}, returns the result of applying `cases.success` to the contained value.
+   * If this is a `Failure` {@link Result}, returns the result of applying the function in `cases.failure` named by the contained error's {@link key} property to the contained error.
+   *
+   * `cases.failure` must have a function for every possible value of the {@link key} property of {@link TError}, which lets unions of errors discriminated by that property be handled exhaustively.
+   *
+   * @param key The name of the property that discriminates the contained error.
+   * @param cases The functions to apply to the contained value or error.
+   */
+  public matchBy<TKey extends keyof TError, TFailureCases extends ResultMatchByFailureCases<TError, TKey>, TSuccessReturn>(key: TKey, cases: { failure: TFailureCases, success: (value: TValue) => TSuccessReturn }): ResultMatchByFailureReturn<TFailureCases> | TSuccessReturn {
+    assert((typeof key === 'number') || (typeof key === 'string') || (typeof key === 'symbol'))
+    assert((typeof cases === 'object') && (cases !== null))
+    assert((typeof cases.failure === 'object') && (cases.failure !== null))
+    assert(typeof cases.success === 'function')
+    return this._match({
+      failure: (error) => {
+        const tag = error[key]
+        assert(Object.hasOwn(cases.failure, tag as PropertyKey))
+        const f = cases.failure[tag as keyof TFailureCases] as (error: TError) => unknown
+        assert(typeof f === 'function')
+        return f(error) as ResultMatchByFailureReturn<TFailureCases>
+      },
+      success: cases.success,
+    })
+  }
+
   /**
    * If this is a `Success` {@link Result}, returns this {@link Result}.
    * If this is a `Failure` {@link Result}, returns {@link other}.
    *
    * @param other The {@link Result} to return if this is a `Failure` {@link Result}.
    */
-  public or<TOtherError extends NonNullable<unknown>>(other: Result<TValue, TOtherError>) {
+  public or<TOtherError extends NonNullable<unknown>>(other: Result<TValue, TOtherError>): Result<TValue, TOtherError> {
     assert(isResult(other))
     return this._or(other)
   }
 
+  /**
+   * If this is a `Success` {@link Result}, returns this {@link Result}.
+   * If this is a `Failure` {@link Result}, returns the result of applying {@link f} to the contained error.
+   *
+   * @param f The function to apply to the contained error.
+   */
+  public orElse<TOtherError extends NonNullable<unknown>>(f: (error: TError) => Result<TValue, TOtherError>): Result<TValue, TOtherError> {
+    assert(typeof f === 'function')
+    return this._orElse(f)
+  }
+
+  /**
+   * Returns the tagged JSON representation of this {@link Result}, which is used by `JSON.stringify()`.
+   *
+   * If this is a `Success` {@link Result}, returns `{ "$eaux": "Result", "kind": "success", "value": … }`.
+   * If this is a `Failure` {@link Result}, returns `{ "$eaux": "Result", "kind": "failure", "error": … }`.
+   */
+  public toJSON() {
+    return this._toJSON()
+  }
+
   public toString() {
     return this.#convertToString((value) => `${value}`)
   }
 
+  /**
+   * Converts a {@link Result} of a {@link Maybe} into a {@link Maybe} of a {@link Result}.
+   *
+   * If this is a `Success` {@link Result} containing a `Something` {@link Maybe}, returns a `Something` {@link Maybe} containing a `Success` {@link Result} containing its value.
+   * If this is a `Success` {@link Result} containing a `Nothing` {@link Maybe}, returns that {@link Maybe}.
+   * If this is a `Failure` {@link Result}, returns a `Something` {@link Maybe} containing a `Failure` {@link Result} containing the contained error.
+   */
+  public transpose<TInnerValue, TThisError extends NonNullable<unknown>>(this: Result<Maybe<TInnerValue>, TThisError>): Maybe<Result<TInnerValue, TThisError>> {
+    return this.match({
+      failure: (error) => something(failure<TInnerValue, TThisError>(error)),
+      success: (maybe) => {
+        assert(isMaybe(maybe))
+        return maybe.map((value) => success<TInnerValue, TThisError>(value))
+      },
+    })
+  }
+
   /**
    * If this is a `Success` {@link Result}, returns the contained value.
    * If this is a `Failure` {@link Result}, throws an {@link ImproperUnwrapError}.
@@ -273,6 +693,75 @@ Result{
     return this._unwrapFailure()
   }
 
+  /**
+   * If this is a `Success` {@link Result}, returns the provided {@link defaultError}.
+   * If this is a `Failure` {@link Result}, returns the contained error.
+   *
+   * @param defaultError The error to return if this is a `Success` {@link Result}.
+   */
+  public unwrapFailureOr(defaultError: TError) {
+    assert(typeof defaultError !== 'undefined')
+    assert(defaultError !== null)
+    return this._unwrapFailureOr(defaultError)
+  }
+
+  /**
+   * If this is a `Success` {@link Result}, returns the contained value.
+   * If this is a `Failure` {@link Result}, returns the provided {@link defaultValue}.
+   *
+   * @param defaultValue The value to return if this is a `Failure` {@link Result}.
+   */
+  public unwrapOr(defaultValue: TValue) {
+    return this._unwrapOr(defaultValue)
+  }
+
+  /**
+   * If this is a `Success` {@link Result}, returns the contained value.
+   * If this is a `Failure` {@link Result}, returns the result of applying {@link f} to the contained error.
+   *
+   * @param f The function to apply to the contained error.
+   */
+  public unwrapOrElse(f: (error: TError) => TValue) {
+    assert(typeof f === 'function')
+    return this._unwrapOrElse(f)
+  }
+
+  /**
+   * If this is a `Success` {@link Result}, returns this {@link Result} without calling {@link f}.
+   * If this is a `Failure` {@link Result}, returns a `Failure` {@link Result} containing a {@link ContextError} with the result of applying {@link f} to the contained error as its message, and the contained error as its `cause`.
+   *
+   * @param f The function that returns the message describing what was being done when the contained error occurred.
+   */
+  public withContext(f: (error: TError) => string): Result<TValue, ContextError> {
+    assert(typeof f === 'function')
+    return this._mapFailure((error) => {
+      const message = f(error)
+      assert(typeof message === 'string')
+      return new ContextError(message, error)
+    })
+  }
+
+  /**
+   * If both this {@link Result} and {@link other} are `Success` {@link Result}s, returns a `Success` {@link Result} containing a tuple of both contained values.
+   * Otherwise, returns the first `Failure` {@link Result} of this {@link Result} and {@link other}.
+   *
+   * @param other The {@link Result} to zip this {@link Result} with.
+   */
+  public zip<TOtherValue, TOtherError extends NonNullable<unknown>>(other: Result<TOtherValue, TOtherError>): Result<[TValue, TOtherValue], TError | TOtherError> {
+    assert(isResult(other))
+    return this._zip(other)
+  }
+
+  /**
+   * If this is a `Success` {@link Result}, yields the contained value.
+   * If this is a `Failure` {@link Result}, yields nothing.
+   *
+   * This lets a {@link Result} be used wherever an iterable of zero or one values is expected, such as `for…of`, spread syntax and `Array.from()`.
+   */
+  public [Symbol.iterator](): Generator<TValue, void, undefined> {
+    return this._iter()
+  }
+
   public [customNodeJsUtilInspectSymbol]() {
     return this.#convertToString((value) => {
       return nodeJsUtilInspect(value)
@@ -280,7 +769,7 @@ Result{
   }
 }
 
-class Failure<TError extends NonNullable<unknown>> extends Result<never, TError> {
+class FailureResult<TError extends NonNullable<unknown>> extends AbstractResult<never, TError> {
   public static make<TError extends NonNullable<unknown>>(error: TError) {
     return new this(error)
   }
@@ -292,6 +781,17 @@ class Failure<TError extends NonNullable<unknown>> extends Result<never, TError>
     this.#error = error
   }
 
+  /**
+   * The contained error.
+   */
+  public get error() {
+    return this.#error
+  }
+
+  public get kind() {
+    return 'failure' as const
+  }
+
   protected _and() {
     return this
   }
@@ -300,6 +800,22 @@ class Failure<TError extends NonNullable<unknown>> extends Result<never, TError>
     return this
   }
 
+  protected _catchTags(cases: Readonly<Record<string, unknown>>): Result<unknown, NonNullable<unknown>> {
+    for (const [tag, f] of Object.entries(cases)) {
+      if (hasTag(this.#error, tag)) {
+        assert(typeof f === 'function')
+        const other: unknown = f(this.#error)
+        assert(isResult(other))
+        return other
+      }
+    }
+    return this
+  }
+
+  protected _ensure() {
+    return this
+  }
+
   protected _expect(message: string): never {
     throw new ExpectationError(message)
   }
@@ -308,6 +824,10 @@ class Failure<TError extends NonNullable<unknown>> extends Result<never, TError>
     return this.#error
   }
 
+  protected _filterOrElse() {
+    return this
+  }
+
   protected _getFailure() {
     return something(this.#error)
   }
@@ -325,7 +845,7 @@ class Failure<TError extends NonNullable<unknown>> extends Result<never, TError>
     return this
   }
 
-  protected _isFailure() {
+  protected _isFailure(): this is Failure<never, TError> {
     return true
   }
 
@@ -335,7 +855,11 @@ class Failure<TError extends NonNullable<unknown>> extends Result<never, TError>
     return isSatified
   }
 
-  protected _isSuccess() {
+  protected _isFailureOr() {
+    return true
+  }
+
+  protected _isSuccess(): this is Success<never, TError> {
     return false
   }
 
@@ -343,6 +867,18 @@ class Failure<TError extends NonNullable<unknown>> extends Result<never, TError>
     return false
   }
 
+  protected _isSuccessOr(predicate: (error: TError) => boolean) {
+    const isSatified = predicate(this.#error)
+    assert(typeof isSatified === 'boolean')
+    return isSatified
+  }
+
+  protected *_iter(): Generator<never, void, undefined> { }
+
+  protected *_iterFailure(): Generator<TError, void, undefined> {
+    yield this.#error
+  }
+
   protected _map() {
     return this
   }
@@ -351,13 +887,39 @@ class Failure<TError extends NonNullable<unknown>> extends Result<never, TError>
     const error = f(this.#error)
     assert(typeof error !== 'undefined')
     assert(error !== null)
-    return Failure.make(error)
+    return FailureResult.make(error)
+  }
+
+  protected _mapOr<TNewValue>(defaultValue: TNewValue) {
+    return defaultValue
+  }
+
+  protected _mapOrElse<TNewValue>(defaultF: (error: TError) => TNewValue) {
+    return defaultF(this.#error)
+  }
+
+  protected _match<TFailureReturn, TSuccessReturn>(cases: ResultMatchCases<never, TError, TFailureReturn, TSuccessReturn>) {
+    return cases.failure(this.#error)
   }
 
   protected _or<TOtherError extends NonNullable<unknown>>(other: Result<never, TOtherError>) {
     return other
   }
 
+  protected _orElse<TOtherError extends NonNullable<unknown>>(f: (error: TError) => Result<never, TOtherError>) {
+    const result = f(this.#error)
+    assert(isResult(result))
+    return result
+  }
+
+  protected _toJSON() {
+    return {
+      $eaux: 'Result',
+      error: encodeError(this.#error),
+      kind: 'failure',
+    } as const
+  }
+
   protected _unwrap(): never {
     throw new ImproperUnwrapError('Attempted to unwrap a `Failure` value')
   }
@@ -365,9 +927,25 @@ class Failure<TError extends NonNullable<unknown>> extends Result<never, TError>
   protected _unwrapFailure() {
     return this.#error
   }
+
+  protected _unwrapFailureOr() {
+    return this.#error
+  }
+
+  protected _unwrapOr<TValue>(defaultValue: TValue) {
+    return defaultValue
+  }
+
+  protected _unwrapOrElse<TValue>(f: (error: TError) => TValue) {
+    return f(this.#error)
+  }
+
+  protected _zip() {
+    return this
+  }
 }
 
-class Success<TValue> extends Result<TValue, never> {
+class SuccessResult<TValue> extends AbstractResult<TValue, never> {
   public static make<TValue>(value: TValue) {
     return new this(value)
   }
@@ -379,16 +957,39 @@ class Success<TValue> extends Result<TValue, never> {
     this.#value = value
   }
 
+  public get kind() {
+    return 'success' as const
+  }
+
+  /**
+   * The contained value.
+   */
+  public get value() {
+    return this.#value
+  }
+
   protected _and<TOtherValue>(other: Result<TOtherValue, never>) {
     return other
   }
 
-  protected _andThen<TOtherValue>(f: (value: TValue) => Result<TOtherValue, never>) {
+  protected _andThen<TOtherValue, TOtherError extends NonNullable<unknown>>(f: (value: TValue) => Result<TOtherValue, TOtherError>) {
     const value = f(this.#value)
     assert(isResult(value))
     return value
   }
 
+  protected _catchTags() {
+    return this
+  }
+
+  protected _ensure<TOtherError extends NonNullable<unknown>>(predicate: (value: TValue) => boolean, error: TOtherError): Result<TValue, TOtherError> {
+    const isSatified = predicate(this.#value)
+    assert(typeof isSatified === 'boolean')
+    return isSatified ?
+      this :
+      FailureResult.make(error)
+  }
+
   protected _expect() {
     return this.#value
   }
@@ -397,6 +998,18 @@ class Success<TValue> extends Result<TValue, never> {
     throw new ExpectationError(message)
   }
 
+  protected _filterOrElse<TOtherError extends NonNullable<unknown>>(predicate: (value: TValue) => boolean, f: (value: TValue) => TOtherError): Result<TValue, TOtherError> {
+    const isSatified = predicate(this.#value)
+    assert(typeof isSatified === 'boolean')
+    if (isSatified) {
+      return this
+    }
+    const error = f(this.#value)
+    assert(typeof error !== 'undefined')
+    assert(error !== null)
+    return FailureResult.make(error)
+  }
+
   protected _getFailure() {
     return nothing<never>()
   }
@@ -414,7 +1027,7 @@ class Success<TValue> extends Result<TValue, never> {
     return this
   }
 
-  protected _isFailure() {
+  protected _isFailure(): this is Failure<TValue, never> {
     return false
   }
 
@@ -422,7 +1035,13 @@ class Success<TValue> extends Result<TValue, never> {
     return false
   }
 
-  protected _isSuccess() {
+  protected _isFailureOr(predicate: (value: TValue) => boolean) {
+    const isSatified = predicate(this.#value)
+    assert(typeof isSatified === 'boolean')
+    return isSatified
+  }
+
+  protected _isSuccess(): this is Success<TValue, never> {
     return true
   }
 
@@ -432,19 +1051,53 @@ class Success<TValue> extends Result<TValue, never> {
     return isSatified
   }
 
+  protected _isSuccessOr() {
+    return true
+  }
+
+  protected *_iter(): Generator<TValue, void, undefined> {
+    yield this.#value
+  }
+
+  protected *_iterFailure(): Generator<never, void, undefined> { }
+
   protected _map<TNewValue>(f: (value: TValue) => TNewValue) {
     const value = f(this.#value)
-    return Success.make(value)
+    return SuccessResult.make(value)
   }
 
   protected _mapFailure() {
     return this
   }
 
+  protected _mapOr<TNewValue>(_defaultValue: TNewValue, f: (value: TValue) => TNewValue) {
+    return f(this.#value)
+  }
+
+  protected _mapOrElse<TNewValue>(_defaultF: (error: never) => TNewValue, f: (value: TValue) => TNewValue) {
+    return f(this.#value)
+  }
+
+  protected _match<TFailureReturn, TSuccessReturn>(cases: ResultMatchCases<TValue, never, TFailureReturn, TSuccessReturn>) {
+    return cases.success(this.#value)
+  }
+
   protected _or() {
     return this
   }
 
+  protected _orElse() {
+    return this
+  }
+
+  protected _toJSON() {
+    return {
+      $eaux: 'Result',
+      kind: 'success',
+      value: encodeError(this.#value),
+    } as const
+  }
+
   protected _unwrap() {
     return this.#value
   }
@@ -452,6 +1105,41 @@ class Success<TValue> extends Result<TValue, never> {
   protected _unwrapFailure(): never {
     throw new ImproperUnwrapError('Attempted to unwrap a `Success` value')
   }
+
+  protected _unwrapFailureOr<TError>(defaultError: TError) {
+    return defaultError
+  }
+
+  protected _unwrapOr() {
+    return this.#value
+  }
+
+  protected _unwrapOrElse() {
+    return this.#value
+  }
+
+  protected _zip<TOtherValue, TOtherError extends NonNullable<unknown>>(other: Result<TOtherValue, TOtherError>) {
+    return other.map((otherValue): [TValue, TOtherValue] => [this.#value, otherValue])
+  }
+}
+
+type ResultBinder =
+  <TValue, TError extends NonNullable<unknown>>(result: Result<TValue, TError>) => Generator<Result<TValue, TError>, TValue, unknown>
+
+type ResultErrorOf<TResult> =
+  TResult extends AbstractResult<unknown, infer TError extends NonNullable<unknown>> ?
+    TError :
+    never
+
+type ResultValueOf<TResult> =
+  TResult extends AbstractResult<infer TValue, NonNullable<unknown>> ?
+    TValue :
+    never
+
+function* bindResult<TValue, TError extends NonNullable<unknown>>(result: Result<TValue, TError>): Generator<Result<TValue, TError>, TValue, unknown> {
+  assert(isResult(result))
+  const value = yield result
+  return value as TValue
 }
 
 /**
@@ -460,7 +1148,39 @@ class Success<TValue> extends Result<TValue, never> {
  * @param value The value to check.
  */
 function isResult(value: unknown): value is Result<unknown, NonNullable<unknown>> {
-  return (value instanceof Result)
+  return (value instanceof AbstractResult)
+}
+
+/**
+ * Asserts that the provided {@link result} is a `Failure` {@link Result}, narrowing it accordingly.
+ *
+ * If it is a `Success` {@link Result}, throws an {@link ImproperUnwrapError}, or an {@link ExpectationError} with the provided {@link message} if there is one, describing the contained value.
+ *
+ * @param result The {@link Result} to check.
+ * @param message The message to include in the {@link ExpectationError}.
+ */
+function assertFailure<TValue, TError extends NonNullable<unknown>>(result: Result<TValue, TError>, message?: string): asserts result is Failure<TValue, TError> {
+  assert(isResult(result))
+  assert((typeof message === 'undefined') || (typeof message === 'string'))
+  if (result.isSuccess()) {
+    throw makeAssertionError('Expected a `Failure` value', result, message)
+  }
+}
+
+/**
+ * Asserts that the provided {@link result} is a `Success` {@link Result}, narrowing it accordingly.
+ *
+ * If it is a `Failure` {@link Result}, throws an {@link ImproperUnwrapError}, or an {@link ExpectationError} with the provided {@link message} if there is one, describing the contained error.
+ *
+ * @param result The {@link Result} to check.
+ * @param message The message to include in the {@link ExpectationError}.
+ */
+function assertSuccess<TValue, TError extends NonNullable<unknown>>(result: Result<TValue, TError>, message?: string): asserts result is Success<TValue, TError> {
+  assert(isResult(result))
+  assert((typeof message === 'undefined') || (typeof message === 'string'))
+  if (result.isFailure()) {
+    throw makeAssertionError('Expected a `Success` value', result, message)
+  }
 }
 
 /**
@@ -471,7 +1191,50 @@ function isResult(value: unknown): value is Result<unknown, NonNullable<unknown>
 function failure<TValue = any, TError extends NonNullable<unknown> = any>(error: TError): Result<TValue, TError> {
   assert(typeof error !== 'undefined')
   assert(error !== null)
-  return Failure.make(error)
+  return FailureResult.make(error)
+}
+
+/**
+ * Wraps {@link f} in a function that calls it with the same arguments and returns a {@link Result} instead of throwing.
+ *
+ * See {@link tryCatch} for how thrown values are converted to errors.
+ *
+ * @param f The function to wrap.
+ * @param mapError The function to apply to a thrown value to produce the error.
+ */
+function fromThrowable<TArgs extends unknown[], TValue>(f: (...args: TArgs) => TValue): (...args: TArgs) => Result<TValue, Error>
+function fromThrowable<TArgs extends unknown[], TValue, TError extends NonNullable<unknown>>(f: (...args: TArgs) => TValue, mapError: (error: unknown) => TError): (...args: TArgs) => Result<TValue, TError>
+function fromThrowable<TArgs extends unknown[], TValue>(f: (...args: TArgs) => TValue, mapError: (error: unknown) => NonNullable<unknown> = toError) {
+  assert(typeof f === 'function')
+  assert(typeof mapError === 'function')
+  return function (this: unknown, ...args: TArgs) {
+    return tryCatch(() => f.apply(this, args), mapError)
+  }
+}
+
+/**
+ * Runs the generator returned by {@link f} as a block of {@link Result}-returning steps.
+ *
+ * Inside the generator, `yield* bind(result)` evaluates to the contained value if `result` is a `Success` {@link Result}.
+ * The first `Failure` {@link Result} bound this way stops the generator and is returned as the outcome of the whole block.
+ * If the generator completes, returns a `Success` {@link Result} containing its return value.
+ *
+ * @param f The generator function to run, which receives the `bind` function.
+ */
+function genResult<TYield extends Result<unknown, NonNullable<unknown>>, TValue>(f: (bind: ResultBinder) => Generator<TYield, TValue, unknown>): Result<TValue, ResultErrorOf<TYield>> {
+  assert(typeof f === 'function')
+  const iterator: Iterator<TYield, TValue, unknown> = f(bindResult)
+  let step = iterator.next()
+  while (!step.done) {
+    const result = step.value
+    assert(isResult(result))
+    if (result.isFailure()) {
+      iterator.return?.()
+      return failure(result.unwrapFailure() as ResultErrorOf<TYield>)
+    }
+    step = iterator.next(result.unwrap())
+  }
+  return success(step.value)
 }
 
 /**
@@ -480,12 +1243,46 @@ function failure<TValue = any, TError extends NonNullable<unknown> = any>(error:
  * @param value The value to contain in the new `Success` {@link Result}.
  */
 function success<TValue = any, TError extends NonNullable<unknown> = any>(value: TValue): Result<TValue, TError> {
-  return Success.make(value)
+  return SuccessResult.make(value)
+}
+
+/**
+ * Calls {@link f} and returns a `Success` {@link Result} containing its return value.
+ * If {@link f} throws, returns a `Failure` {@link Result} containing the result of applying {@link mapError} to the thrown value.
+ *
+ * Without {@link mapError}, a thrown `Error` is contained as is, and any other thrown value (including `undefined` and `null`) is wrapped in a {@link ThrownValueError}.
+ *
+ * @param f The function to call.
+ * @param mapError The function to apply to a thrown value to produce the error.
+ */
+function tryCatch<TValue>(f: () => TValue): Result<TValue, Error>
+function tryCatch<TValue, TError extends NonNullable<unknown>>(f: () => TValue, mapError: (error: unknown) => TError): Result<TValue, TError>
+function tryCatch<TValue>(f: () => TValue, mapError: (error: unknown) => NonNullable<unknown> = toError) {
+  assert(typeof f === 'function')
+  assert(typeof mapError === 'function')
+  let value: TValue
+  try {
+    value = f()
+  } catch (error) {
+    return failure(mapError(error))
+  }
+  return success(value)
 }
 
 export {
   type Result as default,
+  assertFailure,
+  assertSuccess,
   failure,
+  type Failure,
+  fromThrowable,
+  genResult,
   isResult,
+  type ResultErrorOf,
+  type ResultJson,
+  type ResultRecoveredError,
+  type ResultValueOf,
   success,
+  type Success,
+  tryCatch,
 }
@@ -0,0 +1,33 @@
+/*
+ *******************************************************************************
+ * Copyright © 2024-present Jonathan Barronville <jonathanmarvens@proton.me>   *
+ *                                                                             *
+ * Licensed under the Apache License, Version 2.0 (the "License"); you may not *
+ * use this file except in compliance with the License.                        *
+ * You may obtain a copy of the License at                                     *
+ *                                                                             *
+ *     http://www.apache.org/licenses/LICENSE-2.0                              *
+ *                                                                             *
+ * Unless required by applicable law or agreed to in writing, software         *
+ * distributed under the License is distributed on an "AS IS" BASIS, WITHOUT   *
+ * WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.            *
+ * See the License for the specific language governing permissions and         *
+ * limitations under the License.                                              *
+ *******************************************************************************
+ */
+
+const IDENTIFIER_PATTERN = /^[A-Za-z_$][A-Za-z0-9_$]*$/
+
+/**
+ * Appends {@link key} to the JSON path {@link path}, as `.key` if it is an identifier and as `["key"]` otherwise.
+ *
+ * @param path The JSON path to append to.
+ * @param key The object key to append.
+ */
+function appendKey(path: string, key: string) {
+  return IDENTIFIER_PATTERN.test(key) ?
+    `${path}.${key}` :
+    `${path}[${JSON.stringify(key)}]`
+}
+
+export { appendKey as default }
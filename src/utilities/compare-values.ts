@@ -0,0 +1,73 @@
+/*
+ *******************************************************************************
+ * Copyright © 2024-present Jonathan Barronville <jonathanmarvens@proton.me>   *
+ *                                                                             *
+ * Licensed under the Apache License, Version 2.0 (the "License"); you may not *
+ * use this file except in compliance with the License.                        *
+ * You may obtain a copy of the License at                                     *
+ *                                                                             *
+ *     http://www.apache.org/licenses/LICENSE-2.0                              *
+ *                                                                             *
+ * Unless required by applicable law or agreed to in writing, software         *
+ * distributed under the License is distributed on an "AS IS" BASIS, WITHOUT   *
+ * WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.            *
+ * See the License for the specific language governing permissions and         *
+ * limitations under the License.                                              *
+ *******************************************************************************
+ */
+
+const TYPE_ORDER = [
+  'undefined',
+  'boolean',
+  'number',
+  'bigint',
+  'string',
+  'symbol',
+  'object',
+  'function',
+] as const
+
+function compareValues(value: unknown, otherValue: unknown): number {
+  const type = typeof value
+  const otherType = typeof otherValue
+  if (type !== otherType) {
+    return Math.sign(TYPE_ORDER.indexOf(type) - TYPE_ORDER.indexOf(otherType))
+  }
+  switch (type) {
+    case 'bigint':
+    case 'boolean':
+    case 'number':
+    case 'string':
+      return ((value as number) < (otherValue as number)) ?
+        -1 :
+        ((value as number) > (otherValue as number)) ?
+          1 :
+          0
+  }
+  if ((value === null) || (otherValue === null)) {
+    return (value === otherValue) ?
+      0 :
+      (value === null) ?
+        -1 :
+        1
+  }
+  const compare = (value as { compare?: unknown }).compare
+  if ((typeof value === 'object') && (typeof compare === 'function') && (compare === (otherValue as { compare?: unknown }).compare)) {
+    return Math.sign(compare.call(value, otherValue))
+  }
+  if (Array.isArray(value) && Array.isArray(otherValue)) {
+    for (let index = 0; index < Math.min(value.length, otherValue.length); index++) {
+      const order = compareValues(value[index], otherValue[index])
+      if (order !== 0) {
+        return order
+      }
+    }
+    return Math.sign(value.length - otherValue.length)
+  }
+  if ((value instanceof Date) && (otherValue instanceof Date)) {
+    return compareValues(value.getTime(), otherValue.getTime())
+  }
+  return 0
+}
+
+export { compareValues as default }
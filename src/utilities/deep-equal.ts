@@ -0,0 +1,85 @@
+/*
+ *******************************************************************************
+ * Copyright © 2024-present Jonathan Barronville <jonathanmarvens@proton.me>   *
+ *                                                                             *
+ * Licensed under the Apache License, Version 2.0 (the "License"); you may not *
+ * use this file except in compliance with the License.                        *
+ * You may obtain a copy of the License at                                     *
+ *                                                                             *
+ *     http://www.apache.org/licenses/LICENSE-2.0                              *
+ *                                                                             *
+ * Unless required by applicable law or agreed to in writing, software         *
+ * distributed under the License is distributed on an "AS IS" BASIS, WITHOUT   *
+ * WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.            *
+ * See the License for the specific language governing permissions and         *
+ * limitations under the License.                                              *
+ *******************************************************************************
+ */
+
+const pairsInProgress = new Map<object, Set<object>>()
+
+function deepEqual(value: unknown, otherValue: unknown): boolean {
+  if (Object.is(value, otherValue)) {
+    return true
+  }
+  if ((typeof value !== 'object') || (value === null) || (typeof otherValue !== 'object') || (otherValue === null)) {
+    return false
+  }
+  const otherValuesInProgress = pairsInProgress.get(value) ?? new Set<object>()
+  if (otherValuesInProgress.has(otherValue)) {
+    return true
+  }
+  pairsInProgress.set(value, otherValuesInProgress.add(otherValue))
+  try {
+    return deepEqualObjects(value, otherValue)
+  } finally {
+    otherValuesInProgress.delete(otherValue)
+    if (otherValuesInProgress.size === 0) {
+      pairsInProgress.delete(value)
+    }
+  }
+}
+
+function deepEqualObjects(value: object, otherValue: object): boolean {
+  if (Object.getPrototypeOf(value) !== Object.getPrototypeOf(otherValue)) {
+    return false
+  }
+  if (typeof (value as { equals?: unknown }).equals === 'function') {
+    return (value as { equals: (other: unknown) => unknown }).equals(otherValue) === true
+  }
+  if (Array.isArray(value)) {
+    const otherArray = otherValue as unknown[]
+    return (value.length === otherArray.length) && value.every((element, index) => deepEqual(element, otherArray[index]))
+  }
+  if (value instanceof Date) {
+    return Object.is(value.getTime(), (otherValue as Date).getTime())
+  }
+  if (value instanceof Map) {
+    const otherMap = otherValue as Map<unknown, unknown>
+    return (value.size === otherMap.size) && [...value].every(([key, element]) => otherMap.has(key) && deepEqual(element, otherMap.get(key)))
+  }
+  if (value instanceof Set) {
+    const otherSet = otherValue as Set<unknown>
+    const otherElements = [...otherSet]
+    return (value.size === otherSet.size) && [...value].every((element) => {
+      const index = otherSet.has(element) ?
+        otherElements.indexOf(element) :
+        otherElements.findIndex((otherElement) => deepEqual(element, otherElement))
+      if (index === -1) {
+        return false
+      }
+      otherElements.splice(index, 1)
+      return true
+    })
+  }
+  if ((value instanceof Error) && ((value.name !== (otherValue as Error).name) || (value.message !== (otherValue as Error).message))) {
+    return false
+  }
+  const keys = Object.keys(value)
+  const otherKeys = Object.keys(otherValue)
+  return (keys.length === otherKeys.length) && keys.every((key) => {
+    return Object.hasOwn(otherValue, key) && deepEqual((value as Record<string, unknown>)[key], (otherValue as Record<string, unknown>)[key])
+  })
+}
+
+export { deepEqual as default }
@@ -0,0 +1,68 @@
+/*
+ *******************************************************************************
+ * Copyright © 2024-present Jonathan Barronville <jonathanmarvens@proton.me>   *
+ *                                                                             *
+ * Licensed under the Apache License, Version 2.0 (the "License"); you may not *
+ * use this file except in compliance with the License.                        *
+ * You may obtain a copy of the License at                                     *
+ *                                                                             *
+ *     http://www.apache.org/licenses/LICENSE-2.0                              *
+ *                                                                             *
+ * Unless required by applicable law or agreed to in writing, software         *
+ * distributed under the License is distributed on an "AS IS" BASIS, WITHOUT   *
+ * WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.            *
+ * See the License for the specific language governing permissions and         *
+ * limitations under the License.                                              *
+ *******************************************************************************
+ */
+
+/**
+ * The tagged JSON representation of an {@link Error}, which keeps its name, message, cause and other own enumerable properties, such as the `_tag` of a tagged error.
+ */
+type ErrorJson = {
+  readonly $eaux: 'Error',
+  readonly cause?: unknown,
+  readonly message: string,
+  readonly name: string,
+  readonly properties?: Readonly<Record<string, unknown>>,
+}
+
+type JsonEncoded<TValue> =
+  TValue extends Error ?
+    ErrorJson :
+    TValue
+
+const OWN_KEYS: readonly string[] = ['cause', 'message', 'name', 'stack']
+
+/**
+ * Returns the tagged JSON representation of {@link value} if it is an {@link Error}, whose name, message and cause are not enumerable and would otherwise be lost.
+ * Otherwise, returns {@link value} as is.
+ *
+ * @param value The value to encode.
+ */
+function encodeError<TValue>(value: TValue): JsonEncoded<TValue> {
+  if (!(value instanceof Error)) {
+    return value as JsonEncoded<TValue>
+  }
+  const properties = Object.entries(value)
+    .filter(([key]) => !OWN_KEYS.includes(key))
+    .map(([key, property]) => [key, encodeError(property)] as const)
+  const json: ErrorJson = {
+    $eaux: 'Error',
+    ...((typeof value.cause === 'undefined') ?
+      {} :
+      { cause: encodeError(value.cause) }),
+    message: value.message,
+    name: value.name,
+    ...((properties.length === 0) ?
+      {} :
+      { properties: Object.fromEntries(properties) }),
+  }
+  return json as JsonEncoded<TValue>
+}
+
+export {
+  encodeError as default,
+  type ErrorJson,
+  type JsonEncoded,
+}
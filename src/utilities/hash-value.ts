@@ -0,0 +1,89 @@
+/*
+ *******************************************************************************
+ * Copyright © 2024-present Jonathan Barronville <jonathanmarvens@proton.me>   *
+ *                                                                             *
+ * Licensed under the Apache License, Version 2.0 (the "License"); you may not *
+ * use this file except in compliance with the License.                        *
+ * You may obtain a copy of the License at                                     *
+ *                                                                             *
+ *     http://www.apache.org/licenses/LICENSE-2.0                              *
+ *                                                                             *
+ * Unless required by applicable law or agreed to in writing, software         *
+ * distributed under the License is distributed on an "AS IS" BASIS, WITHOUT   *
+ * WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.            *
+ * See the License for the specific language governing permissions and         *
+ * limitations under the License.                                              *
+ *******************************************************************************
+ */
+
+const valuesInProgress = new Set<object>()
+
+function combineHashes(hash: number, otherHash: number) {
+  return (Math.imul(hash, 31) + otherHash) | 0
+}
+
+function hashObject(value: object): number {
+  if (typeof (value as { hashCode?: unknown }).hashCode === 'function') {
+    const hash = (value as { hashCode: () => unknown }).hashCode()
+    return (typeof hash === 'number') ?
+      (hash | 0) :
+      0
+  }
+  if (typeof (value as { equals?: unknown }).equals === 'function') {
+    return hashString('equals')
+  }
+  if (Array.isArray(value)) {
+    return value.reduce<number>((hash, element) => combineHashes(hash, hashValue(element)), hashString('array'))
+  }
+  if (value instanceof Date) {
+    return combineHashes(hashString('date'), hashValue(value.getTime()))
+  }
+  if (value instanceof Map) {
+    return [...value].reduce<number>((hash, [key, element]) => (hash + combineHashes(hashValue(key), hashValue(element))) | 0, hashString('map'))
+  }
+  if (value instanceof Set) {
+    return [...value].reduce<number>((hash, element) => (hash + hashValue(element)) | 0, hashString('set'))
+  }
+  const hash = (value instanceof Error) ?
+    combineHashes(hashString(value.name), hashString(value.message)) :
+    hashString('object')
+  return Object.keys(value)
+    .sort()
+    .reduce((hash, key) => combineHashes(combineHashes(hash, hashString(key)), hashValue((value as Record<string, unknown>)[key])), hash)
+}
+
+function hashString(string: string) {
+  let hash = 0x811c9dc5
+  for (let index = 0; index < string.length; index++) {
+    hash = Math.imul(hash ^ string.charCodeAt(index), 0x01000193)
+  }
+  return hash | 0
+}
+
+function hashValue(value: unknown): number {
+  switch (typeof value) {
+    case 'bigint':
+    case 'boolean':
+    case 'number':
+    case 'string':
+    case 'undefined':
+      return combineHashes(hashString(typeof value), hashString(Object.is(value, -0) ? '-0' : `${value}`))
+    case 'function':
+    case 'symbol':
+      return hashString(typeof value)
+  }
+  if ((typeof value !== 'object') || (value === null)) {
+    return hashString(`${value}`)
+  }
+  if (valuesInProgress.has(value)) {
+    return hashString('cycle')
+  }
+  valuesInProgress.add(value)
+  try {
+    return hashObject(value)
+  } finally {
+    valuesInProgress.delete(value)
+  }
+}
+
+export { hashValue as default }
@@ -0,0 +1,30 @@
+/*
+ *******************************************************************************
+ * Copyright © 2024-present Jonathan Barronville <jonathanmarvens@proton.me>   *
+ *                                                                             *
+ * Licensed under the Apache License, Version 2.0 (the "License"); you may not *
+ * use this file except in compliance with the License.                        *
+ * You may obtain a copy of the License at                                     *
+ *                                                                             *
+ *     http://www.apache.org/licenses/LICENSE-2.0                              *
+ *                                                                             *
+ * Unless required by applicable law or agreed to in writing, software         *
+ * distributed under the License is distributed on an "AS IS" BASIS, WITHOUT   *
+ * WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.            *
+ * See the License for the specific language governing permissions and         *
+ * limitations under the License.                                              *
+ *******************************************************************************
+ */
+
+import ExpectationError from '../error/expectation'
+import ImproperUnwrapError from '../error/improper-unwrap'
+import nodeJsUtilInspect from './node-js-util-inspect'
+
+function makeAssertionError(description: string, value: unknown, message?: string) {
+  const valueString = nodeJsUtilInspect(value) || `${value}`
+  return (typeof message === 'undefined') ?
+    new ImproperUnwrapError(`${description}, got ${valueString}`) :
+    new ExpectationError(`${message}: ${valueString}`)
+}
+
+export { makeAssertionError as default }
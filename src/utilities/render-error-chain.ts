@@ -0,0 +1,49 @@
+/*
+ *******************************************************************************
+ * Copyright © 2024-present Jonathan Barronville <jonathanmarvens@proton.me>   *
+ *                                                                             *
+ * Licensed under the Apache License, Version 2.0 (the "License"); you may not *
+ * use this file except in compliance with the License.                        *
+ * You may obtain a copy of the License at                                     *
+ *                                                                             *
+ *     http://www.apache.org/licenses/LICENSE-2.0                              *
+ *                                                                             *
+ * Unless required by applicable law or agreed to in writing, software         *
+ * distributed under the License is distributed on an "AS IS" BASIS, WITHOUT   *
+ * WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.            *
+ * See the License for the specific language governing permissions and         *
+ * limitations under the License.                                              *
+ *******************************************************************************
+ */
+
+import nodeJsUtilInspect from './node-js-util-inspect'
+
+/**
+ * Renders {@link error} followed by its chain of causes, found by following `Error#cause`, one per line.
+ *
+ * @param error The error to render.
+ */
+function renderErrorChain(error: unknown): string {
+  const messages: string[] = []
+  const seen = new Set<unknown>()
+  let current = error
+  while (!seen.has(current)) {
+    seen.add(current)
+    if (current instanceof Error) {
+      messages.push(current.message)
+      if (!Object.hasOwn(current, 'cause')) {
+        break
+      }
+      current = current.cause
+    } else {
+      messages.push(nodeJsUtilInspect(current) || `${current}`)
+      break
+    }
+  }
+  const [message, ...causes] = messages
+  return (causes.length > 0) ?
+    `${message}\n\nCaused by:\n${causes.map((cause, index) => `    ${index}: ${cause.split('\n').join('\n       ')}`).join('\n')}` :
+    `${message}`
+}
+
+export { renderErrorChain as default }
@@ -0,0 +1,224 @@
+/*
+ *******************************************************************************
+ * Copyright © 2024-present Jonathan Barronville <jonathanmarvens@proton.me>   *
+ *                                                                             *
+ * Licensed under the Apache License, Version 2.0 (the "License"); you may not *
+ * use this file except in compliance with the License.                        *
+ * You may obtain a copy of the License at                                     *
+ *                                                                             *
+ *     http://www.apache.org/licenses/LICENSE-2.0                              *
+ *                                                                             *
+ * Unless required by applicable law or agreed to in writing, software         *
+ * distributed under the License is distributed on an "AS IS" BASIS, WITHOUT   *
+ * WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.            *
+ * See the License for the specific language governing permissions and         *
+ * limitations under the License.                                              *
+ *******************************************************************************
+ */
+
+import { allValidations } from './validation'
+import { expect } from 'chai'
+import { failure } from './result'
+import ImproperUnwrapError from './error/improper-unwrap'
+import { invalid } from './validation'
+import { isValidation } from './validation'
+import { structValidations } from './validation'
+import { success } from './result'
+import { suite } from 'mocha'
+import { test } from 'mocha'
+import { valid } from './validation'
+import { validate } from './validation'
+import type Validation from './validation'
+import { validationFromResult } from './validation'
+
+test('`allValidations()`: If every `Validation` is a `Valid` `Validation`, returns a `Valid` `Validation` containing the contained values', async () => {
+  const value = allValidations([valid(1), valid('two')])
+  const values: [number, string] = value.unwrap()
+  expect(values).to.deep.equal([1, 'two'])
+})
+
+test('`allValidations()`: If any `Validation` is an `Invalid` `Validation`, returns an `Invalid` `Validation` containing every error in order', async () => {
+  const value = allValidations([invalid('Test error 0'), valid(1), invalid('Test error 1')])
+  expect(value.unwrapFailures()).to.deep.equal(['Test error 0', 'Test error 1'])
+})
+
+test('`allValidations()`: Accepts any iterable', async () => {
+  const value = allValidations(new Set([valid(1), valid(2)]))
+  expect(value.unwrap()).to.deep.equal([1, 2])
+})
+
+test('`invalid()`: Creates an `Invalid` `Validation` containing the provided `error`', async () => {
+  const value = invalid('Test error')
+  expect(value.kind).to.equal('invalid')
+  expect(value.isInvalid()).to.be.true
+  expect(value.isValid()).to.be.false
+})
+
+test('`invalid()`: Rejects `undefined` and `null`', async () => {
+  expect(function () {
+    invalid(null as unknown as string)
+  }).to.throw()
+})
+
+test('`isValidation()`: Checks if the provided `value` is a `Validation`', async () => {
+  expect(isValidation(valid(42))).to.be.true
+  expect(isValidation(invalid('Test error'))).to.be.true
+  expect(isValidation(success(42))).to.be.false
+  expect(isValidation({ kind: 'valid', value: 42 })).to.be.false
+})
+
+test('`structValidations()`: If every `Validation` is a `Valid` `Validation`, returns a `Valid` `Validation` containing an object of the contained values', async () => {
+  const value = structValidations({ age: valid(42), name: valid('Ada') })
+  const values: { age: number, name: string } = value.unwrap()
+  expect(values).to.deep.equal({ age: 42, name: 'Ada' })
+})
+
+test('`structValidations()`: If any `Validation` is an `Invalid` `Validation`, returns an `Invalid` `Validation` containing every error', async () => {
+  const value = structValidations({ age: invalid('Invalid age'), email: valid('ada@example.com'), name: invalid('Invalid name') })
+  expect(value.unwrapFailures()).to.deep.equal(['Invalid age', 'Invalid name'])
+})
+
+test('`valid()`: Creates a `Valid` `Validation` containing the provided `value`', async () => {
+  const value = valid(42)
+  expect(value.kind).to.equal('valid')
+  expect(value.isValid()).to.be.true
+  expect(value.isInvalid()).to.be.false
+})
+
+test('`validate()`: If every check passes, returns a `Valid` `Validation` containing the provided `value`', async () => {
+  const value = validate('hunter22', (password) => (password.length >= 8) ? valid(password) : invalid('Too short'))
+  expect(value.unwrap()).to.equal('hunter22')
+})
+
+test('`validate()`: If any check fails, returns an `Invalid` `Validation` containing the errors of every failed check', async () => {
+  const value = validate(
+    'abc',
+    (password) => (password.length >= 8) ? valid(password) : invalid('Too short'),
+    (password) => /\d/.test(password) ? valid(password) : invalid('No digit'),
+    (password) => /[a-z]/.test(password) ? valid(password) : invalid('No lowercase letter'),
+  )
+  expect(value.unwrapFailures()).to.deep.equal(['Too short', 'No digit'])
+})
+
+test('`validationFromResult()`: Converts a `Success` `Result` to a `Valid` `Validation`', async () => {
+  const value = validationFromResult(success(42))
+  expect(value.isValid()).to.be.true
+  expect(value.unwrap()).to.equal(42)
+})
+
+test('`validationFromResult()`: Converts a `Failure` `Result` to an `Invalid` `Validation` containing its error', async () => {
+  const value = validationFromResult(failure('Test error'))
+  expect(value.unwrapFailures()).to.deep.equal(['Test error'])
+})
+
+suite('`Validation`', function () {
+  test('`Validation#and()`: If this is a `Valid` `Validation`, returns `other`', async () => {
+    const other = invalid<number, string>('Test error')
+    expect(valid<number, string>(1).and(other)).to.equal(other)
+  })
+
+  test('`Validation#and()`: If this and `other` are `Invalid` `Validation`s, returns an `Invalid` `Validation` containing both of their errors', async () => {
+    const value = invalid<number, string>('Test error 0').and(invalid('Test error 1'))
+    expect(value.unwrapFailures()).to.deep.equal(['Test error 0', 'Test error 1'])
+  })
+
+  test('`Validation#and()`: If this is an `Invalid` `Validation` and `other` is a `Valid` `Validation`, returns this `Validation`', async () => {
+    const value = invalid<number, string>('Test error')
+    expect(value.and(valid(1))).to.equal(value)
+  })
+
+  test('`Validation#andThen()`: If this is a `Valid` `Validation`, returns the result of applying `f` to the contained value', async () => {
+    const value = valid<number, string>(42).andThen((value) => invalid(`Test error ${value}`))
+    expect(value.unwrapFailures()).to.deep.equal(['Test error 42'])
+  })
+
+  test('`Validation#andThen()`: If this is an `Invalid` `Validation`, returns this `Validation` without calling `f`', async () => {
+    const value = invalid<number, string>('Test error')
+    let isCalled = false
+    expect(value.andThen((value) => {
+      isCalled = true
+      return valid(value)
+    })).to.equal(value)
+    expect(isCalled).to.be.false
+  })
+
+  test('`Validation#errors`: Contains the errors of an `Invalid` `Validation` and is frozen', async () => {
+    const value = invalid('Test error')
+    if (value.isInvalid()) {
+      expect(value.errors).to.deep.equal(['Test error'])
+      expect(Object.isFrozen(value.errors)).to.be.true
+    } else {
+      expect.fail(`Expected an \`Invalid\` \`Validation\`, got a \`Valid\` \`Validation\` containing ${value.value}`)
+    }
+  })
+
+  test('`Validation#isValid()`: Narrows this `Validation` to a `Valid` `Validation`', async () => {
+    const value: Validation<number, string> = valid(42)
+    if (value.isValid()) {
+      expect(value.value).to.equal(42)
+    } else {
+      expect.fail(`Expected a \`Valid\` \`Validation\`, got an \`Invalid\` \`Validation\` containing ${value.errors}`)
+    }
+  })
+
+  test('`Validation#map()`: If this is a `Valid` `Validation`, returns a `Valid` `Validation` containing the result of applying `f` to the contained value', async () => {
+    expect(valid(21).map((value) => value * 2).unwrap()).to.equal(42)
+  })
+
+  test('`Validation#map()`: If this is an `Invalid` `Validation`, returns this `Validation`', async () => {
+    const value = invalid<number, string>('Test error')
+    expect(value.map((value) => value * 2)).to.equal(value)
+  })
+
+  test('`Validation#mapFailure()`: If this is an `Invalid` `Validation`, applies `f` to each contained error', async () => {
+    const value = allValidations([invalid('a'), invalid('b')]).mapFailure((error) => error.toUpperCase())
+    expect(value.unwrapFailures()).to.deep.equal(['A', 'B'])
+  })
+
+  test('`Validation#mapFailure()`: If this is a `Valid` `Validation`, returns this `Validation`', async () => {
+    const value = valid<number, string>(42)
+    expect(value.mapFailure((error) => error.toUpperCase())).to.equal(value)
+  })
+
+  test('`Validation#match()`: Applies the function matching the variant of this `Validation`', async () => {
+    const cases = {
+      invalid: (errors: readonly string[]) => errors.join(', '),
+      valid: (value: number) => `${value}`,
+    }
+    expect(valid<number, string>(42).match(cases)).to.equal('42')
+    expect(allValidations([invalid<number, string>('a'), invalid<number, string>('b')]).map(() => 0).match(cases)).to.equal('a, b')
+  })
+
+  test('`Validation#toResult()`: If this is a `Valid` `Validation`, returns a `Success` `Result` containing the contained value', async () => {
+    expect(valid(42).toResult().unwrap()).to.equal(42)
+  })
+
+  test('`Validation#toResult()`: If this is an `Invalid` `Validation`, returns a `Failure` `Result` containing the contained errors', async () => {
+    const value = invalid('Test error').toResult()
+    expect(value.unwrapFailure()).to.deep.equal(['Test error'])
+  })
+
+  test('`Validation#toResult()`: Lets validated input flow into `Result` pipelines', async () => {
+    const value = validate(42, (value) => (value > 0) ? valid(value) : invalid('Not positive'))
+      .toResult()
+      .andThen((value) => success(value * 2))
+    expect(value.unwrap()).to.equal(84)
+  })
+
+  test('`Validation#toString()`: Describes the variant and its contents', async () => {
+    expect(`${valid(42)}`).to.equal('Validation{\n  Valid{\n    value: 42,\n  }\n}')
+    expect(`${invalid('Test error')}`).to.equal('Validation{\n  Invalid{\n    errors: Test error,\n  }\n}')
+  })
+
+  test('`Validation#unwrap()`: If this is an `Invalid` `Validation`, throws an `ImproperUnwrapError`', async () => {
+    expect(function () {
+      invalid('Test error').unwrap()
+    }).to.throw(ImproperUnwrapError)
+  })
+
+  test('`Validation#unwrapFailures()`: If this is a `Valid` `Validation`, throws an `ImproperUnwrapError`', async () => {
+    expect(function () {
+      valid(42).unwrapFailures()
+    }).to.throw(ImproperUnwrapError)
+  })
+})
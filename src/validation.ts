@@ -0,0 +1,520 @@
+/*
+ *******************************************************************************
+ * Copyright © 2024-present Jonathan Barronville <jonathanmarvens@proton.me>   *
+ *                                                                             *
+ * Licensed under the Apache License, Version 2.0 (the "License"); you may not *
+ * use this file except in compliance with the License.                        *
+ * You may obtain a copy of the License at                                     *
+ *                                                                             *
+ *     http://www.apache.org/licenses/LICENSE-2.0                              *
+ *                                                                             *
+ * Unless required by applicable law or agreed to in writing, software         *
+ * distributed under the License is distributed on an "AS IS" BASIS, WITHOUT   *
+ * WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.            *
+ * See the License for the specific language governing permissions and         *
+ * limitations under the License.                                              *
+ *******************************************************************************
+ */
+
+import assert from './utilities/assert'
+import { customSymbol as customNodeJsUtilInspectSymbol } from './utilities/node-js-util-inspect'
+import { failure } from './result'
+import ImproperUnwrapError from './error/improper-unwrap'
+import isIterable from './utilities/is-iterable'
+import { isResult } from './result'
+import nodeJsUtilInspect from './utilities/node-js-util-inspect'
+import type Result from './result'
+import { success } from './result'
+import UnreachableCodeError from './error/unreachable-code'
+
+/**
+ * An `Invalid` {@link Validation}, which contains one or more errors.
+ */
+type Invalid<TValue, TError extends NonNullable<unknown>> =
+  & AbstractValidation<TValue, TError>
+  & {
+    readonly errors: NonEmptyArray<TError>,
+    readonly kind: 'invalid',
+  }
+
+/**
+ * An array with at least one element.
+ */
+type NonEmptyArray<TElement> =
+  readonly [TElement, ...TElement[]]
+
+/**
+ * A `Valid` {@link Validation}, which contains a value.
+ */
+type Valid<TValue, TError extends NonNullable<unknown>> =
+  & AbstractValidation<TValue, TError>
+  & {
+    readonly kind: 'valid',
+    readonly value: TValue,
+  }
+
+/**
+ * The outcome of one or more independent checks, which, unlike a {@link Result}, keeps every error instead of only the first.
+ *
+ * A {@link Validation} is either a {@link Valid} or an {@link Invalid}, which can be told apart by {@link AbstractValidation.kind}.
+ */
+type Validation<TValue, TError extends NonNullable<unknown>> =
+  | Invalid<TValue, TError>
+  | Valid<TValue, TError>
+
+type ValidationMatchCases<TValue, TError, TInvalidReturn, TValidReturn> = {
+  invalid: (errors: NonEmptyArray<TError>) => TInvalidReturn,
+  valid: (value: TValue) => TValidReturn,
+}
+
+/**
+ * The base class of every {@link Validation}, which implements the operations shared by both variants.
+ */
+abstract class AbstractValidation<TValue, TError extends NonNullable<unknown>> {
+  protected constructor() { }
+
+  #convertToString(toStringFunction: (value: unknown) => string) {
+    if (this.isValid()) {
+      const value = this.unwrap()
+      const valueString = toStringFunction(value)
+        .split('\n')
+        .map((line) => `    ${line}`)
+        .join('\n')
+        .trimStart()
+      return `
+Validation{
+  Valid{
+    value: ${valueString},
+  }
+}
+        `.trim()
+    } else if (this.isInvalid()) {
+      const errors = this.unwrapFailures()
+      const errorsString = toStringFunction(errors)
+        .split('\n')
+        .map((line) => `    ${line}`)
+        .join('\n')
+        .trimStart()
+      return `
+Validation{
+  Invalid{
+    errors: ${errorsString},
+  }
+}
+        `.trim()
+    } else {
+      throw new UnreachableCodeError('Reached an unreachable code path')
+    }
+  }
+
+  /**
+   * The discriminant of this {@link Validation}: `'valid'` for a `Valid` {@link Validation} and `'invalid'` for an `Invalid` {@link Validation}.
+   */
+  public abstract get kind(): 'invalid' | 'valid'
+
+  protected abstract _and<TOtherValue>(other: Validation<TOtherValue, TError>): Validation<TOtherValue, TError>
+
+  protected abstract _andThen<TOtherValue>(f: (value: TValue) => Validation<TOtherValue, TError>): Validation<TOtherValue, TError>
+
+  protected abstract _isInvalid(): this is Invalid<TValue, TError>
+
+  protected abstract _isValid(): this is Valid<TValue, TError>
+
+  protected abstract _map<TNewValue>(f: (value: TValue) => TNewValue): Validation<TNewValue, TError>
+
+  protected abstract _mapFailure<TNewError extends NonNullable<unknown>>(f: (error: TError) => TNewError): Validation<TValue, TNewError>
+
+  protected abstract _match<TInvalidReturn, TValidReturn>(cases: ValidationMatchCases<TValue, TError, TInvalidReturn, TValidReturn>): TInvalidReturn | TValidReturn
+
+  protected abstract _toResult(): Result<TValue, NonEmptyArray<TError>>
+
+  protected abstract _unwrap(): TValue
+
+  protected abstract _unwrapFailures(): NonEmptyArray<TError>
+
+  /**
+   * If this is a `Valid` {@link Validation}, returns {@link other}.
+   * If this is an `Invalid` {@link Validation}, returns an `Invalid` {@link Validation} containing the errors of this {@link Validation}, followed by the errors of {@link other} if it is also an `Invalid` {@link Validation}.
+   *
+   * @param other The {@link Validation} to return if this is a `Valid` {@link Validation}.
+   */
+  public and<TOtherValue>(other: Validation<TOtherValue, TError>): Validation<TOtherValue, TError> {
+    assert(isValidation(other))
+    return this._and(other)
+  }
+
+  /**
+   * If this is a `Valid` {@link Validation}, returns the result of applying {@link f} to the contained value.
+   * If this is an `Invalid` {@link Validation}, returns this {@link Validation}.
+   *
+   * Unlike {@link and}, this does not accumulate errors, since {@link f} can only run once the contained value is known.
+   *
+   * @param f The function to apply to the contained value.
+   */
+  public andThen<TOtherValue>(f: (value: TValue) => Validation<TOtherValue, TError>): Validation<TOtherValue, TError> {
+    assert(typeof f === 'function')
+    return this._andThen(f)
+  }
+
+  /**
+   * Returns `true` if this is an `Invalid` {@link Validation}, narrowing it accordingly.
+   */
+  public isInvalid(): this is Invalid<TValue, TError> {
+    return this._isInvalid()
+  }
+
+  /**
+   * Returns `true` if this is a `Valid` {@link Validation}, narrowing it accordingly.
+   */
+  public isValid(): this is Valid<TValue, TError> {
+    return this._isValid()
+  }
+
+  /**
+   * If this is a `Valid` {@link Validation}, returns a `Valid` {@link Validation} containing the result of applying {@link f} to the contained value.
+   * If this is an `Invalid` {@link Validation}, returns this {@link Validation}.
+   *
+   * @param f The function to apply to the contained value.
+   */
+  public map<TNewValue>(f: (value: TValue) => TNewValue) {
+    assert(typeof f === 'function')
+    return this._map(f)
+  }
+
+  /**
+   * If this is a `Valid` {@link Validation}, returns this {@link Validation}.
+   * If this is an `Invalid` {@link Validation}, returns an `Invalid` {@link Validation} containing the results of applying {@link f} to each contained error.
+   *
+   * @param f The function to apply to each contained error.
+   */
+  public mapFailure<TNewError extends NonNullable<unknown>>(f: (error: TError) => TNewError) {
+    assert(typeof f === 'function')
+    return this._mapFailure(f)
+  }
+
+  /**
+   * If this is a `Valid` {@link Validation}, returns the result of applying `cases.valid` to the contained value.
+   * If this is an `Invalid` {@link Validation}, returns the result of applying `cases.invalid` to the contained errors.
+   *
+   * @param cases The functions to apply to the contained value or errors.
+   */
+  public match<TInvalidReturn, TValidReturn>(cases: ValidationMatchCases<TValue, TError, TInvalidReturn, TValidReturn>) {
+    assert((typeof cases === 'object') && (cases !== null))
+    assert(typeof cases.invalid === 'function')
+    assert(typeof cases.valid === 'function')
+    return this._match(cases)
+  }
+
+  /**
+   * If this is a `Valid` {@link Validation}, returns a `Success` {@link Result} containing the contained value.
+   * If this is an `Invalid` {@link Validation}, returns a `Failure` {@link Result} containing the contained errors.
+   */
+  public toResult() {
+    return this._toResult()
+  }
+
+  public toString() {
+    return this.#convertToString((value) => `${value}`)
+  }
+
+  /**
+   * If this is a `Valid` {@link Validation}, returns the contained value.
+   * If this is an `Invalid` {@link Validation}, throws an {@link ImproperUnwrapError}.
+   */
+  public unwrap() {
+    return this._unwrap()
+  }
+
+  /**
+   * If this is a `Valid` {@link Validation}, throws an {@link ImproperUnwrapError}.
+   * If this is an `Invalid` {@link Validation}, returns the contained errors.
+   */
+  public unwrapFailures() {
+    return this._unwrapFailures()
+  }
+
+  public [customNodeJsUtilInspectSymbol]() {
+    return this.#convertToString((value) => {
+      return nodeJsUtilInspect(value)
+    })
+  }
+}
+
+class InvalidValidation<TError extends NonNullable<unknown>> extends AbstractValidation<never, TError> {
+  public static make<TError extends NonNullable<unknown>>(errors: NonEmptyArray<TError>) {
+    return new this(errors)
+  }
+
+  #errors: NonEmptyArray<TError>
+
+  private constructor(errors: NonEmptyArray<TError>) {
+    super()
+    this.#errors = Object.freeze([...errors] as const)
+  }
+
+  /**
+   * The contained errors.
+   */
+  public get errors() {
+    return this.#errors
+  }
+
+  public get kind() {
+    return 'invalid' as const
+  }
+
+  protected _and(other: Validation<unknown, TError>) {
+    return other.isInvalid() ?
+      InvalidValidation.make<TError>([...this.#errors, ...other.errors]) :
+      this
+  }
+
+  protected _andThen() {
+    return this
+  }
+
+  protected _isInvalid(): this is Invalid<never, TError> {
+    return true
+  }
+
+  protected _isValid(): this is Valid<never, TError> {
+    return false
+  }
+
+  protected _map() {
+    return this
+  }
+
+  protected _mapFailure<TNewError extends NonNullable<unknown>>(f: (error: TError) => TNewError) {
+    const [firstError, ...restErrors] = this.#errors
+    const errors = [f(firstError), ...restErrors.map((error) => f(error))] as const
+    for (const error of errors) {
+      assert(typeof error !== 'undefined')
+      assert(error !== null)
+    }
+    return InvalidValidation.make(errors)
+  }
+
+  protected _match<TInvalidReturn, TValidReturn>(cases: ValidationMatchCases<never, TError, TInvalidReturn, TValidReturn>) {
+    return cases.invalid(this.#errors)
+  }
+
+  protected _toResult() {
+    return failure<never, NonEmptyArray<TError>>(this.#errors)
+  }
+
+  protected _unwrap(): never {
+    throw new ImproperUnwrapError('Attempted to unwrap an `Invalid` value')
+  }
+
+  protected _unwrapFailures() {
+    return this.#errors
+  }
+}
+
+class ValidValidation<TValue> extends AbstractValidation<TValue, never> {
+  public static make<TValue>(value: TValue) {
+    return new this(value)
+  }
+
+  #value: TValue
+
+  private constructor(value: TValue) {
+    super()
+    this.#value = value
+  }
+
+  public get kind() {
+    return 'valid' as const
+  }
+
+  /**
+   * The contained value.
+   */
+  public get value() {
+    return this.#value
+  }
+
+  protected _and<TOtherValue, TError extends NonNullable<unknown>>(other: Validation<TOtherValue, TError>) {
+    return other
+  }
+
+  protected _andThen<TOtherValue, TError extends NonNullable<unknown>>(f: (value: TValue) => Validation<TOtherValue, TError>) {
+    const validation = f(this.#value)
+    assert(isValidation(validation))
+    return validation
+  }
+
+  protected _isInvalid(): this is Invalid<TValue, never> {
+    return false
+  }
+
+  protected _isValid(): this is Valid<TValue, never> {
+    return true
+  }
+
+  protected _map<TNewValue>(f: (value: TValue) => TNewValue) {
+    return ValidValidation.make(f(this.#value))
+  }
+
+  protected _mapFailure() {
+    return this
+  }
+
+  protected _match<TInvalidReturn, TValidReturn>(cases: ValidationMatchCases<TValue, never, TInvalidReturn, TValidReturn>) {
+    return cases.valid(this.#value)
+  }
+
+  protected _toResult() {
+    return success<TValue, never>(this.#value)
+  }
+
+  protected _unwrap() {
+    return this.#value
+  }
+
+  protected _unwrapFailures(): never {
+    throw new ImproperUnwrapError('Attempted to unwrap the errors of a `Valid` value')
+  }
+}
+
+type ValidationErrorOf<TValidation> =
+  TValidation extends AbstractValidation<unknown, infer TError extends NonNullable<unknown>> ?
+    TError :
+    never
+
+type ValidationRecord =
+  Readonly<Record<string, Validation<unknown, NonNullable<unknown>>>>
+
+type ValidationRecordValues<TValidations extends ValidationRecord> = {
+  -readonly [TKey in keyof TValidations]: ValidationValueOf<TValidations[TKey]>
+}
+
+type ValidationValueOf<TValidation> =
+  TValidation extends AbstractValidation<infer TValue, NonNullable<unknown>> ?
+    TValue :
+    never
+
+type ValidationValues<TValidations extends readonly Validation<unknown, NonNullable<unknown>>[]> = {
+  -readonly [TKey in keyof TValidations]: ValidationValueOf<TValidations[TKey]>
+}
+
+function isNonEmptyArray<TElement>(array: readonly TElement[]): array is NonEmptyArray<TElement> {
+  return (array.length > 0)
+}
+
+/**
+ * Checks if the provided {@link value} is a {@link Validation}.
+ *
+ * @param value The value to check.
+ */
+function isValidation(value: unknown): value is Validation<unknown, NonNullable<unknown>> {
+  return (value instanceof AbstractValidation)
+}
+
+/**
+ * If every {@link Validation} in {@link validations} is a `Valid` {@link Validation}, returns a `Valid` {@link Validation} containing an array of the contained values.
+ * Otherwise, returns an `Invalid` {@link Validation} containing the errors of every `Invalid` {@link Validation}, in order.
+ *
+ * @param validations The {@link Validation}s to combine.
+ */
+function allValidations<const TValidations extends readonly Validation<unknown, NonNullable<unknown>>[]>(validations: TValidations): Validation<ValidationValues<TValidations>, ValidationErrorOf<TValidations[number]>>
+function allValidations<TValue, TError extends NonNullable<unknown>>(validations: Iterable<Validation<TValue, TError>>): Validation<TValue[], TError>
+function allValidations(validations: Iterable<Validation<unknown, NonNullable<unknown>>>) {
+  assert(isIterable(validations))
+  const errors: NonNullable<unknown>[] = []
+  const values: unknown[] = []
+  for (const validation of validations) {
+    assert(isValidation(validation))
+    if (validation.isValid()) {
+      values.push(validation.unwrap())
+    } else {
+      errors.push(...validation.unwrapFailures())
+    }
+  }
+  return isNonEmptyArray(errors) ?
+    InvalidValidation.make(errors) :
+    ValidValidation.make(values)
+}
+
+/**
+ * Creates and returns a new `Invalid` {@link Validation} containing the provided {@link error} as its only error.
+ *
+ * @param error The error to contain in the new `Invalid` {@link Validation}.
+ */
+function invalid<TValue = any, TError extends NonNullable<unknown> = any>(error: TError): Validation<TValue, TError> {
+  assert(typeof error !== 'undefined')
+  assert(error !== null)
+  return InvalidValidation.make([error])
+}
+
+/**
+ * If every {@link Validation} in {@link validations} is a `Valid` {@link Validation}, returns a `Valid` {@link Validation} containing an object with the same keys mapped to the contained values.
+ * Otherwise, returns an `Invalid` {@link Validation} containing the errors of every `Invalid` {@link Validation}, in key order.
+ *
+ * @param validations The object of {@link Validation}s to combine.
+ */
+function structValidations<TValidations extends ValidationRecord>(validations: TValidations): Validation<ValidationRecordValues<TValidations>, ValidationErrorOf<TValidations[keyof TValidations]>> {
+  assert((typeof validations === 'object') && (validations !== null))
+  const keys = Object.keys(validations)
+  return allValidations(Object.values(validations)).map((values) => {
+    return Object.fromEntries(keys.map((key, index) => [key, values[index]])) as ValidationRecordValues<TValidations>
+  }) as Validation<ValidationRecordValues<TValidations>, ValidationErrorOf<TValidations[keyof TValidations]>>
+}
+
+/**
+ * Creates and returns a new `Valid` {@link Validation} containing the provided {@link value}.
+ *
+ * @param value The value to contain in the new `Valid` {@link Validation}.
+ */
+function valid<TValue = any, TError extends NonNullable<unknown> = any>(value: TValue): Validation<TValue, TError> {
+  return ValidValidation.make(value)
+}
+
+/**
+ * Applies every check in {@link checks} to {@link value}.
+ *
+ * If every check returns a `Valid` {@link Validation}, returns a `Valid` {@link Validation} containing {@link value}.
+ * Otherwise, returns an `Invalid` {@link Validation} containing the errors of every check that returned an `Invalid` {@link Validation}, in order.
+ *
+ * @param value The value to check.
+ * @param checks The checks to apply to {@link value}.
+ */
+function validate<TValue, TError extends NonNullable<unknown>>(value: TValue, ...checks: ((value: TValue) => Validation<unknown, TError>)[]): Validation<TValue, TError> {
+  for (const check of checks) {
+    assert(typeof check === 'function')
+  }
+  return allValidations(checks.map((check) => check(value))).map(() => value)
+}
+
+/**
+ * Converts the provided {@link result} to a {@link Validation}.
+ *
+ * If it is a `Success` {@link Result}, returns a `Valid` {@link Validation} containing the contained value.
+ * If it is a `Failure` {@link Result}, returns an `Invalid` {@link Validation} containing the contained error as its only error.
+ *
+ * @param result The {@link Result} to convert.
+ */
+function validationFromResult<TValue, TError extends NonNullable<unknown>>(result: Result<TValue, TError>): Validation<TValue, TError> {
+  assert(isResult(result))
+  return result.match<Validation<TValue, TError>, Validation<TValue, TError>>({
+    failure: (error) => InvalidValidation.make([error]),
+    success: (value) => ValidValidation.make(value),
+  })
+}
+
+export {
+  type Validation as default,
+  allValidations,
+  invalid,
+  type Invalid,
+  isValidation,
+  type NonEmptyArray,
+  structValidations,
+  valid,
+  type Valid,
+  validate,
+  type ValidationErrorOf,
+  validationFromResult,
+  type ValidationValueOf,
+}